@@ -0,0 +1,147 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import {
+  EventBusSrv,
+  FieldType,
+  LoadingState,
+  PanelProps,
+  dateTime,
+  getDefaultTimeRange,
+  toDataFrame,
+} from '@grafana/data';
+
+import { CalendarHeatmapPanel } from './CalendarHeatmapPanel';
+import { CalendarHeatmapOptions } from '../types';
+import { DEFAULT_STATS } from '../utils/stats';
+
+/** The option defaults of module.ts, with weeks starting on Monday instead of the Grafana preference */
+const defaultOptions: CalendarHeatmapOptions = {
+  colorMode: 'discrete',
+  divergingMidpoint: 0,
+  negativeScheme: 'red',
+  positiveScheme: 'green',
+  divergingSymmetric: true,
+  colorScheme: 'green',
+  emptyColor: '',
+  customColor: '#22c55e',
+  levelCount: 4,
+  autoRectSize: true,
+  rectSize: 11,
+  space: 3,
+  radius: 2,
+  layout: 'continuous',
+  alignRange: 'none',
+  alignWeeks: 12,
+  yearStartMonth: 1,
+  orientation: 'horizontal',
+  futureDays: 'faded',
+  showWeekLabels: true,
+  showMonthLabels: true,
+  showLegend: true,
+  showLegendEdges: true,
+  showStats: false,
+  statsPosition: 'top',
+  stats: DEFAULT_STATS,
+  displayMode: 'calendar',
+  granularity: 'day',
+  dayStart: '00:00',
+  aggregation: 'sum',
+  valueField: '',
+  combineFields: 'first',
+  showZeros: false,
+  zeroColor: '#8e8e8e',
+  splitBy: 'none',
+  splitLabel: '',
+  splitSort: 'none',
+  compareTo: 'none',
+  compareRefId: 'B',
+  compareMetric: 'delta',
+  bucketMode: 'auto',
+  customBuckets: '0,1,2,9',
+  weekStart: 'monday',
+  monthLabelMode: 'default',
+  monthLabelCustom: 'Jan,Feb,Mar,Apr,May,Jun,Jul,Aug,Sep,Oct,Nov,Dec',
+  weekLabelMode: 'default',
+  weekLabelCustom: 'Sun,Mon,Tue,Wed,Thu,Fri,Sat',
+  weekNumbers: 'none',
+  weekNumberPosition: 'bottom',
+  showTooltip: true,
+  tooltipTemplate: '',
+  clickToZoom: false,
+  holidays: '',
+  markWeekends: false,
+  holidayStyle: 'hatch',
+  excludeHolidaysFromScale: false,
+  showAnomalies: false,
+  anomalyMethod: 'meanStd',
+  anomalyWindow: 28,
+  anomalyThreshold: 3,
+  anomalyColor: 'orange',
+  showAnnotations: false,
+  annotationMarker: 'dot',
+  annotationColor: 'blue',
+  annotationTags: '',
+};
+
+function renderPanel(options: Partial<CalendarHeatmapOptions>, values: Array<[number, number]>) {
+  const from = dateTime(Date.UTC(2024, 2, 4));
+  const to = dateTime(Date.UTC(2024, 2, 10, 23, 59));
+  const timeRange = { ...getDefaultTimeRange(), from, to, raw: { from, to } };
+  const series = [
+    toDataFrame({
+      refId: 'A',
+      fields: [
+        { name: 'time', type: FieldType.time, values: values.map(([time]) => time) },
+        { name: 'value', type: FieldType.number, values: values.map(([, value]) => value) },
+      ],
+    }),
+  ];
+
+  const props: PanelProps<CalendarHeatmapOptions> = {
+    id: 1,
+    data: { series, state: LoadingState.Done, timeRange },
+    timeRange,
+    timeZone: 'utc',
+    options: { ...defaultOptions, ...options },
+    fieldConfig: { defaults: {}, overrides: [] },
+    transparent: false,
+    width: 600,
+    height: 200,
+    renderCounter: 0,
+    title: '',
+    eventBus: new EventBusSrv(),
+    onOptionsChange: jest.fn(),
+    onFieldConfigChange: jest.fn(),
+    onChangeTimeRange: jest.fn(),
+    replaceVariables: (value: string) => value,
+  };
+  return render(<CalendarHeatmapPanel {...props} />);
+}
+
+const fillOf = (container: HTMLElement, key: string) =>
+  container.querySelector(`rect[data-date="${key}"]`)?.getAttribute('fill');
+
+describe('CalendarHeatmapPanel', () => {
+  const values: Array<[number, number]> = [
+    [Date.UTC(2024, 2, 5, 9), 4],
+    [Date.UTC(2024, 2, 6, 9), 0],
+    [Date.UTC(2024, 2, 7, 9), 8],
+  ];
+
+  it('draws a cell for every day of the range', () => {
+    const { container } = renderPanel({}, values);
+    expect(container.querySelectorAll('rect[data-date]')).toHaveLength(7);
+  });
+
+  it('draws days that aggregate to 0 in the zero color when zeros are shown', () => {
+    const { container } = renderPanel({ showZeros: true, zeroColor: '#123456' }, values);
+    expect(fillOf(container, '2024/03/06')).toBe('#123456');
+    expect(fillOf(container, '2024/03/05')).not.toBe('#123456');
+  });
+
+  it('draws days that aggregate to 0 as empty days otherwise', () => {
+    const { container } = renderPanel({ showZeros: false, zeroColor: '#123456' }, values);
+    expect(fillOf(container, '2024/03/06')).toBe(fillOf(container, '2024/03/08'));
+    expect(fillOf(container, '2024/03/06')).not.toBe('#123456');
+  });
+});
@@ -1,39 +1,90 @@
-import React, { useMemo } from 'react';
-import { PanelProps } from '@grafana/data';
+import React, { useCallback, useId, useMemo, useState } from 'react';
+import { FieldType, PanelProps, ScopedVars, formattedValueToString, getDisplayProcessor } from '@grafana/data';
 import { useTheme2, Tooltip } from '@grafana/ui';
-import HeatMap from '@uiw/react-heat-map';
-import { CalendarHeatmapOptions, HeatmapValue } from '../types';
-import { processTimeSeriesData, getColorPalette, getLegendColors } from '../utils/dataProcessor';
+import { CalendarHeatmapOptions } from '../types';
+import {
+  processCellDetails,
+  findValueField,
+  getBucketBounds,
+  getComparisonScale,
+  getContinuousColorScale,
+  getDivergingScale,
+  getLegendColors,
+  getLevelIndex,
+  isZeroValue,
+  sampleColorScale,
+} from '../utils/dataProcessor';
+import {
+  Granularity,
+  displayPeriodKey,
+  displayPeriodWindow,
+  formatHourOfWeekKey,
+  formatPeriodKey,
+  nextHourOfWeekKey,
+  periodKeysToRange,
+  shiftPeriodKey,
+  yearsInRange,
+} from '../utils/periods';
+import { CellAnnotation, groupAnnotations } from '../utils/annotations';
+import { detectAnomalies } from '../utils/anomalies';
+import {
+  alignDayRange,
+  countWeeks,
+  dayKey,
+  dayRange,
+  formatDayKey,
+  parseDayKey,
+  parseDayStart,
+  resolveWeekStart,
+} from '../utils/dates';
+import { DAILY_ONLY_STATS, DEFAULT_STATS, SummaryStat } from '../utils/stats';
+import { PeriodGrid, PERIOD_TOP_PAD, YEAR_LABEL_WIDTH, periodColumnCount } from './PeriodGrid';
+import { VerticalCalendar, MONTH_LABEL_WIDTH } from './VerticalCalendar';
+import {
+  HorizontalCalendar,
+  WEEK_LABEL_WIDTH,
+  WEEK_NUMBER_HEIGHT,
+  WeekNumbering,
+  horizontalTopPad,
+} from './HorizontalCalendar';
+import { PunchCard } from './PunchCard';
+import { MonthPages, MONTH_PAGE_GAP, monthPageWidth, monthsInRange } from './MonthPages';
+import { useHeatmapRows } from '../hooks/useHeatmapRows';
+import { useHolidays } from '../hooks/useHolidays';
+import { useSummaryStats } from '../hooks/useSummaryStats';
 import { css } from '@emotion/css';
 import { t } from '@grafana/i18n';
 
 interface Props extends PanelProps<CalendarHeatmapOptions> {}
 
-const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_TITLE_HEIGHT = 18;
+const STATS_BAR_HEIGHT = 24;
 
-function addDays(date: Date, days: number): Date {
-  return new Date(date.getTime() + days * DAY_MS);
+interface YearRow {
+  label: string;
+  startKey: string;
+  endKey: string;
 }
 
-/** Parse either YYYY/MM/DD or YYYY-MM-DD */
-function parseAnyYMD(dateStr: string): Date | null {
-  const s = String(dateStr).trim();
-  const parts = s.includes('/') ? s.split('/') : s.includes('-') ? s.split('-') : [];
-  if (parts.length !== 3) {
-    return null;
+/** Full (fiscal) years touched by the range; each row runs from its start month to the day before the next one */
+function buildYearRows(startKey: string, endKey: string, startMonth: number): YearRow[] {
+  const from = parseDayKey(startKey);
+  const to = parseDayKey(endKey);
+  if (!from || !to) {
+    return [];
   }
-  const [y, m, d] = parts.map((x) => Number(x));
-  if (!Number.isFinite(y) || !Number.isFinite(m) || !Number.isFinite(d)) {
-    return null;
-  }
-  return new Date(y, m - 1, d);
-}
+  const yearOf = (d: { year: number; month: number }) => (d.month - 1 >= startMonth ? d.year : d.year - 1);
 
-function toKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}/${month}/${day}`;
+  const rows: YearRow[] = [];
+  for (let year = yearOf(from); year <= yearOf(to); year++) {
+    const label = startMonth === 0 ? String(year) : `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+    rows.push({
+      label,
+      startKey: dayKey(year, startMonth + 1, 1),
+      endKey: dayKey(year + 1, startMonth + 1, 0),
+    });
+  }
+  return rows;
 }
 
 function splitCsv(input: string): string[] {
@@ -43,97 +94,316 @@ function splitCsv(input: string): string[] {
     .filter((s) => s.length > 0);
 }
 
-function rotateWeek(labelsSunFirst: string[], weekStart: 'sunday' | 'monday'): string[] {
+function defaultWeekdayNames(): string[] {
+  return [
+    t('panel.component.weekLabels.sun', 'Sun'),
+    t('panel.component.weekLabels.mon', 'Mon'),
+    t('panel.component.weekLabels.tue', 'Tue'),
+    t('panel.component.weekLabels.wed', 'Wed'),
+    t('panel.component.weekLabels.thu', 'Thu'),
+    t('panel.component.weekLabels.fri', 'Fri'),
+    t('panel.component.weekLabels.sat', 'Sat'),
+  ];
+}
+
+function defaultMonthNames(): string[] {
+  return [
+    t('panel.component.monthLabels.jan', 'Jan'),
+    t('panel.component.monthLabels.feb', 'Feb'),
+    t('panel.component.monthLabels.mar', 'Mar'),
+    t('panel.component.monthLabels.apr', 'Apr'),
+    t('panel.component.monthLabels.may', 'May'),
+    t('panel.component.monthLabels.jun', 'Jun'),
+    t('panel.component.monthLabels.jul', 'Jul'),
+    t('panel.component.monthLabels.aug', 'Aug'),
+    t('panel.component.monthLabels.sep', 'Sep'),
+    t('panel.component.monthLabels.oct', 'Oct'),
+    t('panel.component.monthLabels.nov', 'Nov'),
+    t('panel.component.monthLabels.dec', 'Dec'),
+  ];
+}
+
+/** Punch-card key "d/HH" as "Mon 14:00" */
+function hourOfWeekText(key: string): string {
+  const [weekday, hour] = key.split('/');
+  return `${defaultWeekdayNames()[Number(weekday)] ?? weekday} ${hour}:00`;
+}
+
+/** Sunday-first labels rotated so the week starts on weekStart (0 = Sunday) */
+function rotateWeek(labelsSunFirst: string[], weekStart: number): string[] {
   if (labelsSunFirst.length !== 7) {
     return labelsSunFirst;
   }
-  return weekStart === 'monday' ? [...labelsSunFirst.slice(1), labelsSunFirst[0]] : labelsSunFirst;
+  return [...labelsSunFirst.slice(weekStart), ...labelsSunFirst.slice(0, weekStart)];
 }
 
-export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, options, timeRange, timeZone }) => {
+export const CalendarHeatmapPanel: React.FC<Props> = ({
+  data,
+  width,
+  height,
+  options,
+  timeRange,
+  timeZone,
+  onChangeTimeRange,
+  replaceVariables,
+}) => {
   const theme = useTheme2();
 
-  const heatmapData = useMemo(() => {
-    return processTimeSeriesData(data.series, options.aggregation, timeZone);
-  }, [data.series, options.aggregation, timeZone]);
+  // Weekday × hour-of-day matrix instead of a calendar; granularity and layout options don't apply
+  const isPunchCard = options.displayMode === 'punchCard';
+
+  // Day, ISO week or month buckets; week and month render as a year × period grid
+  const granularity: Granularity = options.granularity ?? 'day';
+  const isPeriodGrid = !isPunchCard && granularity !== 'day';
+
+  // Minutes after midnight a day starts at (shift-based days); the punch card keeps clock hours
+  const dayStart = isPunchCard ? 0 : parseDayStart(options.dayStart);
+
+  // First period of a shift-click span selection (key in PERIOD_KEY_FORMAT)
+  const [rangeAnchor, setRangeAnchor] = useState<string | null>(null);
+
+  // The punch card has no dates to zoom to
+  const canZoom = options.clickToZoom && !isPunchCard;
+
+  const handleDayClick = useCallback(
+    (key: string, shiftKey: boolean) => {
+      if (!canZoom) {
+        return;
+      }
+
+      if (shiftKey && !rangeAnchor) {
+        setRangeAnchor(key);
+        return;
+      }
+
+      setRangeAnchor(null);
+      onChangeTimeRange(
+        periodKeysToRange(shiftKey && rangeAnchor ? rangeAnchor : key, key, granularity, timeZone, dayStart)
+      );
+    },
+    [canZoom, rangeAnchor, onChangeTimeRange, granularity, timeZone, dayStart]
+  );
+
+  // Rows of the split, aggregated; when comparing, the changes against the reference
+  const heatmapRows = useHeatmapRows(data, options, { timeZone, granularity, isPunchCard, dayStart });
+  const { isComparing, compareMetric, comparisons, rows } = heatmapRows;
+
+  const heatmapData = useMemo(() => rows.flatMap((row) => row.values), [rows]);
+
+  // Holidays and weekends only apply to daily cells
+  const isDaily = !isPeriodGrid && !isPunchCard;
+
+  const { holidays, isNonWorkingDay } = useHolidays(options, isDaily);
+
+  // Values the color scale is built from; quiet non-working days can be left out
+  const scaleData = useMemo(() => {
+    return options.excludeHolidaysFromScale ? heatmapData.filter((d) => !isNonWorkingDay(d.date)) : heatmapData;
+  }, [options.excludeHolidaysFromScale, heatmapData, isNonWorkingDay]);
+
+  const hatchId = `holiday-hatch-${useId().replace(/:/g, '')}`;
 
-  const countByOriginalDate = useMemo(() => {
-    const m = new Map<string, number>();
-    for (const d of heatmapData) {
-      m.set(d.date, d.count); // keys are YYYY/MM/DD
+  // Key of the cell after a cell key: the next day, week or month, or the next hour of the week
+  const nextCellKey = useCallback(
+    (key: string) => (isPunchCard ? nextHourOfWeekKey(key) : shiftPeriodKey(key, granularity, 1, granularity)),
+    [isPunchCard, granularity]
+  );
+
+  // Dashboard annotations keyed like the cells; regions mark every cell they cover
+  const annotationsByKey = useMemo(() => {
+    if (!options.showAnnotations) {
+      return new Map<string, CellAnnotation[]>();
     }
-    return m;
-  }, [heatmapData]);
+    const keyOf = (time: number) =>
+      isPunchCard ? formatHourOfWeekKey(time, timeZone) : formatPeriodKey(time, granularity, timeZone, dayStart);
+    return groupAnnotations(data.annotations, keyOf, options.annotationTags, nextCellKey);
+  }, [
+    options.showAnnotations,
+    options.annotationTags,
+    data.annotations,
+    isPunchCard,
+    granularity,
+    timeZone,
+    dayStart,
+    nextCellKey,
+  ]);
 
-  const rawStartDate = useMemo(() => new Date(timeRange.from.valueOf()), [timeRange.from]);
-  const rawEndDate = useMemo(() => new Date(timeRange.to.valueOf()), [timeRange.to]);
+  // Calendar days of the time range in the dashboard time zone
+  const timeRangeDays = useMemo(
+    () => dayRange(timeRange.from, timeRange.to, timeZone, dayStart),
+    [timeRange.from, timeRange.to, timeZone, dayStart]
+  );
   const availableWidth = useMemo(() => Math.max(0, width - 32), [width]);
 
-  // Monday-first: shift render dates by -1 day to rotate weekday rows so Sunday becomes last
-  const renderShiftDays = options.weekStart === 'monday' ? -1 : 0;
+  // Weekday of the first row / column, 0 = Sunday; by default Grafana's user / org preference
+  const weekStartDay = resolveWeekStart(options.weekStart);
 
-  const shiftedStartDate = useMemo(() => addDays(rawStartDate, renderShiftDays), [rawStartDate, renderShiftDays]);
-  const shiftedEndDate = useMemo(() => addDays(rawEndDate, renderShiftDays), [rawEndDate, renderShiftDays]);
+  // First month of the (fiscal) year, 0-based
+  const yearStartMonth = Math.min(12, Math.max(1, Math.round(options.yearStartMonth ?? 1))) - 1;
 
-  const shiftedHeatmapData: HeatmapValue[] = useMemo(() => {
-    if (renderShiftDays === 0) {
-      return heatmapData;
-    }
+  // Days the grid shows: the time range, or whole periods around it; stats stay on the time range
+  const alignRange = isDaily ? (options.alignRange ?? 'none') : 'none';
+  const { startKey, endKey } = useMemo(
+    () =>
+      alignDayRange(timeRangeDays, alignRange, {
+        yearStartMonth: yearStartMonth + 1,
+        weeks: options.alignWeeks,
+        weekStart: weekStartDay,
+      }),
+    [timeRangeDays, alignRange, yearStartMonth, options.alignWeeks, weekStartDay]
+  );
 
-    return heatmapData.map((d) => {
-      const dt = parseAnyYMD(d.date);
-      if (!dt) {
-        return d;
+  const renderRows = useMemo(() => {
+    return rows.map((row, idx) => {
+      const countByOriginalDate = new Map<string, number>();
+      for (const d of row.values) {
+        countByOriginalDate.set(d.date, d.count); // keys are YYYY/MM/DD
       }
-      const shifted = addDays(dt, renderShiftDays);
-      return { date: toKey(shifted), count: d.count };
+      const anomalies = options.showAnomalies
+        ? detectAnomalies(row.values, {
+            method: options.anomalyMethod,
+            window: options.anomalyWindow,
+            threshold: options.anomalyThreshold,
+            nextKey: options.showZeros ? nextCellKey : undefined,
+          })
+        : undefined;
+      // Samples, min / max / avg and the per-series breakdown of every cell, for the tooltip
+      const details = options.showTooltip
+        ? processCellDetails(row.samples, row.frames, options.aggregation)
+        : undefined;
+      return { name: row.name, countByOriginalDate, comparisons: comparisons?.[idx], anomalies, details };
     });
-  }, [heatmapData, renderShiftDays]);
+  }, [
+    rows,
+    comparisons,
+    options.showTooltip,
+    options.aggregation,
+    options.showAnomalies,
+    options.showZeros,
+    nextCellKey,
+    options.anomalyMethod,
+    options.anomalyWindow,
+    options.anomalyThreshold,
+  ]);
+
+  const years = useMemo(() => {
+    return isPeriodGrid ? yearsInRange(timeRange.from, timeRange.to, granularity, timeZone) : [];
+  }, [isPeriodGrid, timeRange.from, timeRange.to, granularity, timeZone]);
+
+  // Row-per-year layout (day mode only; week and month grids already have one row per year)
+  const isYearly = options.layout === 'yearly' && !isPeriodGrid && !isPunchCard;
+
+  const yearRows = useMemo(() => {
+    return isYearly ? buildYearRows(startKey, endKey, yearStartMonth) : [];
+  }, [isYearly, startKey, endKey, yearStartMonth]);
+
+  // Wall-calendar pages, one per month (day mode only)
+  const isMonthPages = options.layout === 'months' && !isPeriodGrid && !isPunchCard;
 
+  const monthPages = useMemo(() => {
+    return isMonthPages ? monthsInRange(startKey, endKey) : [];
+  }, [isMonthPages, startKey, endKey]);
+
+  // Weeks as rows, weekdays as columns (continuous day calendar only)
+  const isVertical = options.orientation === 'vertical' && !isPeriodGrid && !isYearly && !isMonthPages && !isPunchCard;
+
+  // Week numbers over or under the columns (horizontal day calendar only)
+  const weekNumbers: WeekNumbering =
+    isPeriodGrid || isPunchCard || isVertical || isMonthPages ? 'none' : (options.weekNumbers ?? 'none');
+  const weekNumberHeight = weekNumbers !== 'none' ? WEEK_NUMBER_HEIGHT : 0;
+
+  const showRowTitles = options.splitBy !== undefined && options.splitBy !== 'none';
+
+  // Yearly rows share one cell size, so the widest year decides
   const weekCount = useMemo(() => {
-    const alignedStart = !shiftedStartDate.getDay()
-      ? shiftedStartDate
-      : new Date(shiftedStartDate.getTime() - shiftedStartDate.getDay() * DAY_MS);
+    if (isYearly) {
+      return Math.max(1, ...yearRows.map((yr) => countWeeks(yr.startKey, yr.endKey, weekStartDay)));
+    }
+    return countWeeks(startKey, endKey, weekStartDay);
+  }, [isYearly, yearRows, startKey, endKey, weekStartDay]);
 
-    const diffDays = Math.max(0, Math.floor((shiftedEndDate.getTime() - alignedStart.getTime()) / DAY_MS));
-    return Math.max(1, Math.ceil((diffDays + 1) / 7));
-  }, [shiftedStartDate, shiftedEndDate]);
+  // Grid dimensions in cells: weeks × 7 weekdays (transposed when vertical), periods × years, or 24 hours × 7 weekdays
+  const gridColumns = isPunchCard ? 24 : isPeriodGrid ? periodColumnCount(granularity) : isVertical ? 7 : weekCount;
+  const gridRows = isPeriodGrid ? Math.max(1, years.length) : isVertical ? weekCount : 7;
 
   // 统一维护 legend 相关尺寸：legendOffset 和 styles.legend 共用同一份常量
   const LEGEND_LAYOUT = {
     marginTop: 10,
     paddingBottom: 10,
     inferredLineHeight: 14,
+    edgeLineHeight: 12,
     fudgePx: 0,
   };
 
+  const showLegendEdges = options.showLegendEdges && (options.colorMode ?? 'discrete') === 'discrete';
+
   const legendOffset = options.showLegend
-    ? LEGEND_LAYOUT.marginTop + LEGEND_LAYOUT.paddingBottom + LEGEND_LAYOUT.inferredLineHeight + LEGEND_LAYOUT.fudgePx
+    ? LEGEND_LAYOUT.marginTop +
+      LEGEND_LAYOUT.paddingBottom +
+      LEGEND_LAYOUT.inferredLineHeight +
+      (showLegendEdges ? LEGEND_LAYOUT.edgeLineHeight : 0) +
+      LEGEND_LAYOUT.fudgePx
     : 0;
 
+  const statsOffset = options.showStats ? STATS_BAR_HEIGHT : 0;
+
+  // Rows share the vertical space; each titled row loses ROW_TITLE_HEIGHT to its title
+  const rowHeight = useMemo(() => {
+    const total = Math.max(0, height - legendOffset - statsOffset);
+    if (!showRowTitles) {
+      return total;
+    }
+    return Math.max(0, Math.floor(total / Math.max(1, renderRows.length)) - ROW_TITLE_HEIGHT);
+  }, [height, legendOffset, statsOffset, showRowTitles, renderRows.length]);
+
   // 计算 rectSize：宽度自适应 + 高度自动约束，并留一个变量可手动微调
   const computedRectSize = useMemo(() => {
     if (!options.autoRectSize) {
       return options.rectSize;
     }
 
-    const leftPad = options.showWeekLabels ? 28 : 5;
+    // Vertical: month labels on the side, weekday labels on top
+    const sideLabels = isVertical ? options.showMonthLabels : options.showWeekLabels;
+    const leftPad =
+      (isPeriodGrid ? YEAR_LABEL_WIDTH : sideLabels ? (isVertical ? MONTH_LABEL_WIDTH : WEEK_LABEL_WIDTH) : 5) +
+      (isYearly ? YEAR_LABEL_WIDTH : 0);
     const usableW = Math.max(0, availableWidth - leftPad);
-    const rawByWidth = Math.floor(usableW / weekCount) - options.space;
+    const rawByWidth = Math.floor(usableW / gridColumns) - options.space;
+
+    // Month pages: as many pages per line as fit with comfortable cells, then fill the width
+    if (isMonthPages) {
+      const pagesPerLine = Math.max(
+        1,
+        Math.min(
+          monthPages.length,
+          Math.floor((availableWidth + MONTH_PAGE_GAP) / (monthPageWidth(28, options.space) + MONTH_PAGE_GAP))
+        )
+      );
+      const pageWidth = (availableWidth - (pagesPerLine - 1) * MONTH_PAGE_GAP) / pagesPerLine;
+      return Math.max(12, Math.min(48, Math.floor(pageWidth / 7) - options.space));
+    }
+
+    // Stacked years fit the width only; the panel scrolls when they run out of height
+    if (isYearly) {
+      return Math.max(4, Math.min(24, rawByWidth));
+    }
 
-    const heatmapHeight = Math.max(0, height - legendOffset);
+    const heatmapHeight = rowHeight;
 
     const monthLabelFontSize = 12;
     const inferredMonthLabelLineHeight = Math.ceil(monthLabelFontSize * 1.35);
-    const inferredTopLabelsHeight = options.showMonthLabels ? inferredMonthLabelLineHeight : 0;
+    // the punch card always shows its hour header
+    const topLabels = isPunchCard || (isVertical ? options.showWeekLabels : options.showMonthLabels);
+    const inferredTopLabelsHeight = topLabels ? inferredMonthLabelLineHeight : 0;
 
     const heightFudgePx = 0;
-    const usableH = Math.max(0, heatmapHeight - inferredTopLabelsHeight - heightFudgePx);
+    const usableH = Math.max(0, heatmapHeight - inferredTopLabelsHeight - weekNumberHeight - heightFudgePx);
 
-    const rawByHeight = Math.floor((usableH - 6 * options.space) / 7);
+    const rawByHeight = Math.floor((usableH - (gridRows - 1) * options.space) / gridRows);
 
+    // 12-column month grids, 7-column vertical calendars and 24-column punch cards can afford larger cells
+    const maxSize = (granularity === 'month' && isPeriodGrid) || isVertical || isPunchCard ? 48 : 24;
     const raw = Math.min(rawByWidth, rawByHeight);
-    return Math.max(4, Math.min(24, raw));
+    return Math.max(4, Math.min(maxSize, raw));
   }, [
     options.autoRectSize,
     options.rectSize,
@@ -141,9 +411,46 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
     options.showMonthLabels,
     options.space,
     availableWidth,
-    weekCount,
-    height,
-    legendOffset,
+    isPeriodGrid,
+    isYearly,
+    isVertical,
+    isPunchCard,
+    isMonthPages,
+    monthPages.length,
+    granularity,
+    gridColumns,
+    gridRows,
+    rowHeight,
+    weekNumberHeight,
+  ]);
+
+  const topPad = isPeriodGrid
+    ? options.showMonthLabels
+      ? PERIOD_TOP_PAD
+      : 5
+    : horizontalTopPad(options.showMonthLabels, weekNumbers, options.weekNumberPosition);
+
+  // Titled and yearly rows never shrink below their grid; the container scrolls instead
+  const rowSvgHeight = useMemo(() => {
+    const bottomLabels = options.weekNumberPosition === 'top' ? 0 : weekNumberHeight;
+    const gridHeight = topPad + gridRows * (computedRectSize + options.space) + bottomLabels;
+    if (isYearly) {
+      return gridHeight;
+    }
+    if (!showRowTitles) {
+      return rowHeight;
+    }
+    return Math.max(rowHeight, gridHeight);
+  }, [
+    isYearly,
+    showRowTitles,
+    rowHeight,
+    topPad,
+    gridRows,
+    computedRectSize,
+    options.space,
+    options.weekNumberPosition,
+    weekNumberHeight,
   ]);
 
   const weekLabels = useMemo(() => {
@@ -161,19 +468,11 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
     }
 
     if (!labelsSunFirst) {
-      labelsSunFirst = [
-        t('panel.component.weekLabels.sun', 'Sun'),
-        t('panel.component.weekLabels.mon', 'Mon'),
-        t('panel.component.weekLabels.tue', 'Tue'),
-        t('panel.component.weekLabels.wed', 'Wed'),
-        t('panel.component.weekLabels.thu', 'Thu'),
-        t('panel.component.weekLabels.fri', 'Fri'),
-        t('panel.component.weekLabels.sat', 'Sat'),
-      ];
+      labelsSunFirst = defaultWeekdayNames();
     }
 
-    return rotateWeek(labelsSunFirst, options.weekStart);
-  }, [options.showWeekLabels, options.weekStart, options.weekLabelMode, options.weekLabelCustom]);
+    return rotateWeek(labelsSunFirst, weekStartDay);
+  }, [options.showWeekLabels, weekStartDay, options.weekLabelMode, options.weekLabelCustom]);
 
   const monthLabels = useMemo(() => {
     if (!options.showMonthLabels) {
@@ -191,43 +490,182 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
       }
     }
 
-    return [
-      t('panel.component.monthLabels.jan', 'Jan'),
-      t('panel.component.monthLabels.feb', 'Feb'),
-      t('panel.component.monthLabels.mar', 'Mar'),
-      t('panel.component.monthLabels.apr', 'Apr'),
-      t('panel.component.monthLabels.may', 'May'),
-      t('panel.component.monthLabels.jun', 'Jun'),
-      t('panel.component.monthLabels.jul', 'Jul'),
-      t('panel.component.monthLabels.aug', 'Aug'),
-      t('panel.component.monthLabels.sep', 'Sep'),
-      t('panel.component.monthLabels.oct', 'Oct'),
-      t('panel.component.monthLabels.nov', 'Nov'),
-      t('panel.component.monthLabels.dec', 'Dec'),
-    ];
+    return defaultMonthNames();
   }, [options.showMonthLabels, options.monthLabelMode, options.monthLabelCustom]);
 
+  // Week mode labels every fourth ISO week; month mode reuses the month labels
+  const periodColumnLabels = useMemo(() => {
+    if (!isPeriodGrid || !monthLabels) {
+      return false as const;
+    }
+    if (granularity === 'month') {
+      return monthLabels;
+    }
+    return Array.from({ length: periodColumnCount('week') }, (_, i) => (i % 4 === 0 ? `W${i + 1}` : ''));
+  }, [isPeriodGrid, granularity, monthLabels]);
+
+  // Reduced rather than spread: a long range of hourly cells exceeds the argument limit of Math.max(...)
   const maxValue = useMemo(() => {
-    if (heatmapData.length === 0) {
+    if (scaleData.length === 0) {
       return 0;
     }
-    return Math.max(...heatmapData.map((d) => d.count));
-  }, [heatmapData]);
-
-  const colors = useMemo(() => {
-    return getColorPalette(
-      options.colorScheme,
-      theme,
-      maxValue,
-      options.customColor,
-      options.bucketMode,
-      options.customBuckets
-    );
-  }, [options.colorScheme, theme, maxValue, options.customColor, options.bucketMode, options.customBuckets]);
+    return scaleData.reduce((max, d) => (d.count > max ? d.count : max), -Infinity);
+  }, [scaleData]);
+
+  const minValue = useMemo(() => {
+    if (scaleData.length === 0) {
+      return 0;
+    }
+    return scaleData.reduce((min, d) => (d.count < min ? d.count : min), Infinity);
+  }, [scaleData]);
+
+  // Standard field config (unit, decimals, min/max, display name, no value) of the value field
+  const valueField = useMemo(() => findValueField(data.series, options.valueField), [data.series, options.valueField]);
+  const fieldConfig = useMemo(() => valueField?.config ?? {}, [valueField]);
+
+  const formatValue = useMemo(() => {
+    const display =
+      valueField?.display ??
+      getDisplayProcessor({ field: valueField ?? { type: FieldType.number, config: {} }, theme, timeZone });
+    return (value: number) => formattedValueToString(display(value));
+  }, [valueField, theme, timeZone]);
+
+  // Signed change of a comparison: +12.5% or +3 (in the field unit)
+  const formatChange = useCallback(
+    (change: number) => {
+      const sign = change > 0 ? '+' : '';
+      return compareMetric === 'percent' ? `${sign}${change.toFixed(1)}%` : `${sign}${formatValue(change)}`;
+    },
+    [compareMetric, formatValue]
+  );
+  const formatScaleValue = isComparing ? formatChange : formatValue;
+
+  const scaleMax = fieldConfig.max ?? maxValue;
 
+  const bucketOptions = useMemo(
+    () => ({
+      bucketMode: options.bucketMode,
+      customBuckets: options.customBuckets,
+      // unset and 0 differ: only an explicit Min moves equal / log scales off the smallest value
+      minCount: fieldConfig.min ?? undefined,
+      levelCount: options.levelCount,
+      values: scaleData.map((d) => d.count),
+    }),
+    [options.bucketMode, options.customBuckets, fieldConfig.min, options.levelCount, scaleData]
+  );
+
+  const bucketBounds = useMemo(() => {
+    return getBucketBounds(scaleMax, bucketOptions);
+  }, [scaleMax, bucketOptions]);
+
+  // Empty color plus one shade per level; levels whose edges collapsed are gone
+  const levelCount = bucketBounds.length;
   const legendColors = useMemo(() => {
-    return getLegendColors(options.colorScheme, theme, options.customColor);
-  }, [options.colorScheme, theme, options.customColor]);
+    return getLegendColors(options.colorScheme, theme, options.customColor, levelCount).slice(0, levelCount + 1);
+  }, [options.colorScheme, theme, options.customColor, levelCount]);
+
+  // Continuous mode: each cell interpolates over [domainMin, domainMax] (field Min/Max, else data range)
+  const isContinuous = options.colorMode === 'continuous';
+  const domainMin = fieldConfig.min ?? minValue;
+  const domainMax = fieldConfig.max ?? maxValue;
+
+  const continuousColor = useMemo(() => {
+    if (!isContinuous) {
+      return null;
+    }
+    return getContinuousColorScale(options.colorScheme, theme, options.customColor, valueField);
+  }, [isContinuous, options.colorScheme, theme, options.customColor, valueField]);
+
+  // Diverging mode: separate palettes below / above the midpoint
+  // Comparisons always use the comparison palette, centered on "no change"
+  const isDiverging = options.colorMode === 'diverging' && !isComparing;
+
+  const divergingScale = useMemo(() => {
+    if (isComparing) {
+      return getComparisonScale(
+        theme,
+        scaleData.map((d) => d.count),
+        {
+          negativeScheme: options.negativeScheme,
+          positiveScheme: options.positiveScheme,
+          levelCount: options.levelCount,
+        }
+      );
+    }
+    if (!isDiverging) {
+      return null;
+    }
+    return getDivergingScale(theme, domainMin, domainMax, {
+      midpoint: options.divergingMidpoint,
+      negativeScheme: options.negativeScheme,
+      positiveScheme: options.positiveScheme,
+      symmetric: options.divergingSymmetric,
+      levelCount: options.levelCount,
+    });
+  }, [
+    isComparing,
+    scaleData,
+    isDiverging,
+    theme,
+    domainMin,
+    domainMax,
+    options.divergingMidpoint,
+    options.negativeScheme,
+    options.positiveScheme,
+    options.divergingSymmetric,
+    options.levelCount,
+  ]);
+
+  const anomalyColor = theme.visualization.getColorByName(options.anomalyColor || 'orange');
+
+  const zeroColor = useMemo(
+    () => theme.visualization.getColorByName(options.zeroColor || theme.colors.text.disabled),
+    [theme, options.zeroColor]
+  );
+
+  const colorForValue = useCallback(
+    (value: number): string | undefined => {
+      if (options.showZeros && !isComparing && isZeroValue(value)) {
+        return zeroColor;
+      }
+      if (divergingScale) {
+        return divergingScale.colorAt(value);
+      }
+      if (continuousColor) {
+        const percent = domainMax > domainMin ? (value - domainMin) / (domainMax - domainMin) : 1;
+        return continuousColor(percent);
+      }
+      const level = getLevelIndex(bucketBounds, value);
+      return level < 0 ? undefined : legendColors[level + 1];
+    },
+    [
+      options.showZeros,
+      isComparing,
+      zeroColor,
+      divergingScale,
+      continuousColor,
+      domainMin,
+      domainMax,
+      bucketBounds,
+      legendColors,
+    ]
+  );
+
+  const domainLabel = t('panel.component.legend.range', '{{min}} – {{max}}', {
+    min: formatValue(domainMin),
+    max: formatValue(domainMax),
+  });
+
+  const legendGradient = useMemo(() => {
+    return continuousColor ? `linear-gradient(to right, ${sampleColorScale(continuousColor).join(', ')})` : '';
+  }, [continuousColor]);
+
+  const levelRangeTitle = (level: number): string => {
+    const lower = bucketBounds[level];
+    const upper = bucketBounds[level + 1];
+    const range = upper !== undefined ? `${formatValue(lower)} – ${formatValue(upper)}` : `≥ ${formatValue(lower)}`;
+    return t('panel.component.legend.tooltip.levelRange', 'Level {{level}}: {{range}}', { level: level + 1, range });
+  };
 
   const styles = {
     container: css`
@@ -242,15 +680,15 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
     `,
     heatmap: css`
       margin-top: -5px;
-      --rhm-text-color: ${theme.colors.text.secondary};
+      color: ${theme.colors.text.secondary};
 
-      .w-heatmap-week {
+      .calendar-heatmap-weekday {
         font-size: 11px;
         font-weight: 600;
         fill: currentColor;
       }
 
-      text[data-size] {
+      .calendar-heatmap-label {
         font-size: 12px;
         font-weight: 600;
         fill: currentColor;
@@ -270,10 +708,485 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
       height: 12px;
       border-radius: calc(${options.radius}px / 2);
     `,
+    row: css`
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+    `,
+    yearRow: css`
+      display: flex;
+      align-items: flex-start;
+    `,
+    yearLabel: css`
+      flex-shrink: 0;
+      width: ${YEAR_LABEL_WIDTH}px;
+      padding-top: ${topPad - 5}px;
+      line-height: ${computedRectSize}px;
+      font-size: 11px;
+      font-weight: 600;
+      color: ${theme.colors.text.secondary};
+    `,
+    rowTitle: css`
+      height: ${ROW_TITLE_HEIGHT}px;
+      line-height: ${ROW_TITLE_HEIGHT}px;
+      max-width: ${availableWidth}px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-size: 12px;
+      font-weight: 600;
+      color: ${theme.colors.text.primary};
+    `,
+    legendLevel: css`
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      margin-top: ${LEGEND_LAYOUT.edgeLineHeight}px;
+    `,
+    legendEdge: css`
+      height: ${LEGEND_LAYOUT.edgeLineHeight}px;
+      line-height: ${LEGEND_LAYOUT.edgeLineHeight}px;
+      font-size: 9px;
+      white-space: nowrap;
+    `,
+    legendMidpoint: css`
+      margin: 0 4px;
+      font-weight: 600;
+    `,
+    legendGradient: css`
+      width: 96px;
+      height: 12px;
+      border-radius: calc(${options.radius}px / 2);
+    `,
+    statsBar: css`
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: center;
+      gap: 4px 16px;
+      min-height: ${STATS_BAR_HEIGHT}px;
+      align-items: center;
+      font-size: 12px;
+    `,
+    statLabel: css`
+      margin-right: 6px;
+      color: ${theme.colors.text.secondary};
+    `,
+    statValue: css`
+      font-weight: 600;
+      color: ${theme.colors.text.primary};
+    `,
     noData: css`
       color: ${theme.colors.text.secondary};
       font-size: 14px;
     `,
+    tooltipAnnotations: css`
+      margin: 4px 0 0;
+      padding-left: 16px;
+    `,
+    tooltipAnomaly: css`
+      color: ${anomalyColor};
+      font-weight: 600;
+    `,
+    tooltipDate: css`
+      font-weight: 600;
+    `,
+    tooltipWindow: css`
+      color: ${theme.colors.text.secondary};
+    `,
+    tooltipSamples: css`
+      color: ${theme.colors.text.secondary};
+    `,
+    tooltipSeries: css`
+      margin: 4px 0 0;
+      padding-left: 16px;
+    `,
+    tooltipHoliday: css`
+      font-style: italic;
+    `,
+    tooltipTags: css`
+      margin-left: 4px;
+      color: ${theme.colors.text.secondary};
+    `,
+  };
+
+  const summaryStats = useSummaryStats(options, heatmapRows, timeZone, isDaily, timeRangeDays.endKey);
+
+  const statItems = useMemo(() => {
+    if (!summaryStats) {
+      return [];
+    }
+    const keyText = (key: string) => (isPunchCard ? hourOfWeekText(key) : displayPeriodKey(key, granularity));
+    const days = (count: number) => t('panel.component.stats.days', '{{count}} days', { count });
+
+    const item = (stat: SummaryStat): { label: string; value: string } => {
+      switch (stat) {
+        case 'total':
+          return { label: t('panel.component.stats.total', 'Total'), value: formatValue(summaryStats.total) };
+        case 'average':
+          return {
+            label: isDaily
+              ? t('panel.component.stats.average', 'Daily average')
+              : t('panel.component.stats.mean', 'Average'),
+            value: formatValue(summaryStats.average),
+          };
+        case 'activeDays':
+          return {
+            label: isDaily
+              ? t('panel.component.stats.activeDays', 'Active days')
+              : t('panel.component.stats.active', 'Active'),
+            value: String(summaryStats.activeDays),
+          };
+        case 'currentStreak':
+          return {
+            label: t('panel.component.stats.currentStreak', 'Current streak'),
+            value: days(summaryStats.currentStreak),
+          };
+        case 'longestStreak':
+          return {
+            label: t('panel.component.stats.longestStreak', 'Longest streak'),
+            value: days(summaryStats.longestStreak),
+          };
+        case 'busiestDay': {
+          const busiest = summaryStats.busiestDay;
+          return {
+            label: isDaily
+              ? t('panel.component.stats.busiestDay', 'Busiest day')
+              : t('panel.component.stats.busiest', 'Busiest'),
+            value: busiest
+              ? t('panel.component.stats.busiestValue', '{{period}} ({{value}})', {
+                  period: keyText(busiest.date),
+                  value: formatValue(busiest.count),
+                })
+              : '–',
+          };
+        }
+        case 'busiestWeekday': {
+          const busiest = summaryStats.busiestWeekday;
+          return {
+            label: t('panel.component.stats.busiestWeekday', 'Busiest weekday'),
+            value: busiest
+              ? t('panel.component.stats.busiestValue', '{{period}} ({{value}})', {
+                  period: defaultWeekdayNames()[busiest.weekday],
+                  value: formatValue(busiest.total),
+                })
+              : '–',
+          };
+        }
+      }
+    };
+
+    return (options.stats ?? DEFAULT_STATS)
+      .filter((stat) => isDaily || !DAILY_ONLY_STATS.includes(stat))
+      .map((stat) => ({ stat, ...item(stat) }));
+  }, [summaryStats, options.stats, isDaily, isPunchCard, granularity, formatValue]);
+
+  const statsBar =
+    statItems.length > 0 ? (
+      <div className={styles.statsBar}>
+        {statItems.map(({ stat, label, value }) => (
+          <span key={stat}>
+            <span className={styles.statLabel}>{label}</span>
+            <span className={styles.statValue}>{value}</span>
+          </span>
+        ))}
+      </div>
+    ) : null;
+
+  const zeroSwatch = options.showZeros ? (
+    <div
+      className={styles.legendRect}
+      style={{ backgroundColor: zeroColor }}
+      title={t('panel.component.legend.tooltip.zero', 'Zero')}
+    />
+  ) : null;
+
+  // Corner dot or count badge of an annotated cell; the outline marker is a stroke on the cell itself
+  const renderAnnotationMarker = (props: React.SVGProps<SVGRectElement>, count: number, color: string) => {
+    const x = Number(props.x ?? 0);
+    const y = Number(props.y ?? 0);
+    const size = Number(props.width ?? computedRectSize);
+
+    if (options.annotationMarker === 'badge') {
+      const r = Math.max(3, size * 0.32);
+      return (
+        <g pointerEvents="none">
+          <circle cx={x + size - r} cy={y + r} r={r} fill={color} />
+          {size >= 12 && (
+            <text
+              x={x + size - r}
+              y={y + r}
+              dy="0.35em"
+              textAnchor="middle"
+              fontSize={Math.round(r * 1.3)}
+              fill={theme.colors.getContrastText(color)}
+            >
+              {count > 9 ? t('panel.component.annotations.manyBadge', '9+') : count}
+            </text>
+          )}
+        </g>
+      );
+    }
+
+    const r = Math.max(1.5, size * 0.18);
+    return <circle cx={x + size - r} cy={y + r} r={r} fill={color} pointerEvents="none" />;
+  };
+
+  // Shared by every grid: color, tooltip and click-to-zoom
+  const renderCell = (
+    row: (typeof renderRows)[number],
+    key: string,
+    props: React.SVGProps<SVGRectElement>
+  ): React.ReactElement => {
+    // Padding the alignment adds after the queried range, e.g. the rest of the year; days with data show as usual
+    const futureDays = options.futureDays ?? 'faded';
+    if (
+      alignRange !== 'none' &&
+      futureDays !== 'show' &&
+      key > timeRangeDays.endKey &&
+      !row.countByOriginalDate.has(key)
+    ) {
+      return futureDays === 'hidden' ? (
+        <g />
+      ) : (
+        <rect
+          {...props}
+          data-date={key}
+          rx={options.radius}
+          fillOpacity={0.4}
+          stroke={theme.colors.border.weak}
+          strokeDasharray="2 1"
+        />
+      );
+    }
+
+    const count = row.countByOriginalDate.get(key);
+    const comparison = row.comparisons?.get(key);
+
+    const noValue = fieldConfig.noValue || t('panel.component.tooltip.noData', 'No data');
+    let valueText = count !== undefined ? formatValue(count) : noValue;
+    if (comparison) {
+      valueText =
+        comparison.reference === undefined
+          ? t('panel.component.tooltip.noReference', '{{current}} (no reference)', {
+              current: formatValue(comparison.current),
+            })
+          : t('panel.component.tooltip.comparison', '{{current}} vs {{reference}} ({{change}})', {
+              current: formatValue(comparison.current),
+              reference: formatValue(comparison.reference),
+              change: comparison.change !== undefined ? formatScaleValue(comparison.change) : '–',
+            });
+    }
+
+    const annotations = annotationsByKey.get(key);
+    const markerColor = annotations
+      ? theme.visualization.getColorByName(annotations.find((a) => a.color)?.color || options.annotationColor || 'blue')
+      : undefined;
+    const outlined = markerColor !== undefined && options.annotationMarker === 'outline';
+
+    const isAnchor = key === rangeAnchor;
+    const holidayName = holidays.get(key);
+    const nonWorking = isNonWorkingDay(key);
+    const hatched = nonWorking && options.holidayStyle !== 'outline';
+    const baseline = row.anomalies?.get(key);
+
+    // One outline per cell: selection anchor, then anomaly, then annotation, then the dashed holiday outline
+    const outline = isAnchor
+      ? { color: theme.colors.primary.main }
+      : baseline?.anomalous
+        ? { color: anomalyColor }
+        : outlined
+          ? { color: markerColor }
+          : nonWorking && !hatched
+            ? { color: theme.colors.text.secondary, dash: '2 1' }
+            : undefined;
+
+    const fill = count !== undefined ? (colorForValue(count) ?? props.fill) : props.fill;
+    const rect = (
+      <rect
+        {...props}
+        data-date={key}
+        fill={fill}
+        rx={options.radius}
+        stroke={outline?.color}
+        strokeWidth={outline ? 1.5 : undefined}
+        strokeDasharray={outline?.dash}
+        style={canZoom ? { ...props.style, cursor: 'pointer' } : props.style}
+        onClick={(e) => handleDayClick(key, e.shiftKey)}
+      />
+    );
+
+    const marker = annotations && markerColor && !outlined;
+    const cell =
+      marker || hatched ? (
+        <g>
+          {rect}
+          {hatched && (
+            <rect
+              x={props.x}
+              y={props.y}
+              width={props.width}
+              height={props.height}
+              rx={options.radius}
+              fill={`url(#${hatchId})`}
+              pointerEvents="none"
+            />
+          )}
+          {marker && renderAnnotationMarker(props, annotations.length, markerColor)}
+        </g>
+      ) : (
+        rect
+      );
+
+    if (!options.showTooltip) {
+      return cell;
+    }
+
+    // Shift-based days don't match the key's calendar date, so the tooltip spells out the window
+    const periodWindow =
+      dayStart && !isPunchCard ? displayPeriodWindow(key, granularity, timeZone, dayStart) : undefined;
+
+    const details = count !== undefined ? row.details?.get(key) : undefined;
+    const dateText = isPunchCard
+      ? hourOfWeekText(key)
+      : isPeriodGrid
+        ? displayPeriodKey(key, granularity)
+        : formatDayKey(key, 'dddd, YYYY/MM/DD');
+
+    // A user template replaces the date, value and sample lines
+    const template = (options.tooltipTemplate ?? '').trim();
+    let summary: React.ReactNode;
+    if (template) {
+      // Variables interpolate their value: formatted text, with the raw numbers under their own names
+      const text = (value: string) => ({ text: value, value });
+      const raw = (value: number | undefined) => text(value !== undefined ? String(value) : '');
+      const vars: ScopedVars = {
+        date: text(dateText),
+        key: text(key),
+        value: text(valueText),
+        rawValue: raw(count),
+        samples: raw(details?.samples ?? 0),
+        min: text(details ? formatValue(details.min) : ''),
+        max: text(details ? formatValue(details.max) : ''),
+        avg: text(details ? formatValue(details.avg) : ''),
+        rawMin: raw(details?.min),
+        rawMax: raw(details?.max),
+        rawAvg: raw(details?.avg),
+      };
+      summary = replaceVariables(template, vars)
+        .split('\n')
+        .map((line, idx) => <div key={idx}>{line}</div>);
+    } else {
+      summary = (
+        <>
+          <div className={styles.tooltipDate}>
+            {fieldConfig.displayName ? `${fieldConfig.displayName} · ${dateText}` : dateText}
+          </div>
+          <div>{valueText}</div>
+          {details && (
+            <div className={styles.tooltipSamples}>
+              {t('panel.component.tooltip.samples', '{{samples}} samples · min {{min}} · avg {{avg}} · max {{max}}', {
+                samples: details.samples,
+                min: formatValue(details.min),
+                avg: formatValue(details.avg),
+                max: formatValue(details.max),
+              })}
+            </div>
+          )}
+        </>
+      );
+    }
+
+    const tooltipContent = (
+      <div>
+        {summary}
+        {details && details.series.length > 0 && (
+          <ul className={styles.tooltipSeries}>
+            {details.series.map((s, idx) => (
+              <li key={idx}>
+                {t('panel.component.tooltip.seriesValue', '{{name}}: {{value}}', {
+                  name: s.name,
+                  value: formatValue(s.value),
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+        {periodWindow && <div className={styles.tooltipWindow}>{periodWindow}</div>}
+        {baseline && (
+          <div className={baseline.anomalous ? styles.tooltipAnomaly : undefined}>
+            {t('panel.component.tooltip.expected', 'Expected {{lower}} – {{upper}} (z = {{score}})', {
+              lower: formatScaleValue(baseline.lower),
+              upper: formatScaleValue(baseline.upper),
+              score: Number.isFinite(baseline.score) ? baseline.score.toFixed(1) : '∞',
+            })}
+          </div>
+        )}
+        {holidayName !== undefined && (
+          <div className={styles.tooltipHoliday}>{holidayName || t('panel.component.tooltip.holiday', 'Holiday')}</div>
+        )}
+        {annotations && (
+          <ul className={styles.tooltipAnnotations}>
+            {annotations.map((a, idx) => (
+              <li key={idx}>
+                {a.title || t('panel.component.tooltip.untitledAnnotation', '(untitled)')}
+                {a.tags.length > 0 && <span className={styles.tooltipTags}>{a.tags.join(', ')}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+
+    return (
+      <Tooltip content={tooltipContent} placement="top">
+        {cell}
+      </Tooltip>
+    );
+  };
+
+  // Daily calendar of one row from firstKey to lastKey
+  const renderCalendar = (
+    row: (typeof renderRows)[number],
+    firstKey: string,
+    lastKey: string,
+    calendarWidth: number
+  ) => (
+    <HorizontalCalendar
+      className={styles.heatmap}
+      startKey={firstKey}
+      endKey={lastKey}
+      weekStart={weekStartDay}
+      width={calendarWidth}
+      height={rowSvgHeight}
+      rectSize={computedRectSize}
+      space={options.space}
+      weekLabels={weekLabels}
+      monthLabels={monthLabels}
+      weekNumbers={weekNumbers}
+      weekNumberPosition={options.weekNumberPosition}
+      emptyColor={legendColors[0]}
+      renderCell={(key, props) => renderCell(row, key, props)}
+    />
+  );
+
+  // Day numbers on month pages stay readable on any cell color
+  const dayNumberColor = (countByKey: Map<string, number>, key: string): string => {
+    const count = countByKey.get(key);
+    const fill = (count !== undefined ? colorForValue(count) : undefined) ?? legendColors[0];
+    return theme.colors.getContrastText(fill);
+  };
+
+  // lower bound of each level under its swatch
+  const withLegendEdge = (swatch: React.ReactElement, edge: string) => {
+    if (!showLegendEdges) {
+      return swatch;
+    }
+    return (
+      <div className={styles.legendLevel}>
+        {swatch}
+        <span className={styles.legendEdge}>{edge}</span>
+      </div>
+    );
   };
 
   if (data.series.length === 0) {
@@ -286,79 +1199,168 @@ export const CalendarHeatmapPanel: React.FC<Props> = ({ data, width, height, opt
 
   return (
     <div className={styles.container}>
-      <HeatMap
-        className={styles.heatmap}
-        value={shiftedHeatmapData}
-        startDate={shiftedStartDate}
-        endDate={shiftedEndDate}
-        width={availableWidth}
-        height={Math.max(0, height - legendOffset)}
-        rectSize={computedRectSize}
-        space={options.space}
-        radius={options.radius}
-        legendCellSize={0}
-        weekLabels={weekLabels}
-        monthLabels={monthLabels}
-        panelColors={colors}
-        rectRender={(props, cell) => {
-          const renderedDate = parseAnyYMD(cell.date);
-          let originalKey = String(cell.date);
-
-          if (renderedDate) {
-            const originalDate = addDays(renderedDate, -renderShiftDays);
-            originalKey = toKey(originalDate);
-          } else {
-            originalKey = String(cell.date).replace(/-/g, '/');
-          }
-
-          const originalCount = countByOriginalDate.get(originalKey);
-
-          const tooltipContent =
-            originalCount !== undefined
-              ? `${originalKey}: ${originalCount.toLocaleString()}`
-              : `${originalKey}: ${t('panel.component.tooltip.noData', 'No data')}`;
-
-          if (!options.showTooltip) {
-            return <rect {...props} rx={options.radius} />;
-          }
-
-          return (
-            <Tooltip content={tooltipContent} placement="top">
-              <rect {...props} rx={options.radius} />
-            </Tooltip>
-          );
-        }}
-      />
+      {isDaily && (holidays.size > 0 || options.markWeekends) && (
+        <svg width={0} height={0} style={{ position: 'absolute' }} aria-hidden>
+          <defs>
+            <pattern id={hatchId} width={4} height={4} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <line x1={0} y1={0} x2={0} y2={4} stroke={theme.colors.text.secondary} strokeWidth={1.5} />
+            </pattern>
+          </defs>
+        </svg>
+      )}
+
+      {options.statsPosition !== 'bottom' && statsBar}
 
-      {options.showLegend && (
+      {renderRows.map((row, rowIdx) => (
+        <div key={`${rowIdx}-${row.name}`} className={styles.row}>
+          {showRowTitles && (
+            <div className={styles.rowTitle} title={row.name}>
+              {row.name || t('panel.component.split.noValue', '(no value)')}
+            </div>
+          )}
+          {isPunchCard ? (
+            <PunchCard
+              className={styles.heatmap}
+              weekStart={weekStartDay}
+              rectSize={computedRectSize}
+              space={options.space}
+              weekLabels={weekLabels}
+              emptyColor={legendColors[0]}
+              renderCell={(key, props) => renderCell(row, key, props)}
+            />
+          ) : isPeriodGrid ? (
+            <PeriodGrid
+              className={styles.heatmap}
+              granularity={granularity}
+              years={years}
+              rectSize={computedRectSize}
+              space={options.space}
+              columnLabels={periodColumnLabels}
+              emptyColor={legendColors[0]}
+              renderCell={(key, props) => renderCell(row, key, props)}
+            />
+          ) : isVertical ? (
+            <VerticalCalendar
+              className={styles.heatmap}
+              startKey={startKey}
+              endKey={endKey}
+              weekStart={weekStartDay}
+              rectSize={computedRectSize}
+              space={options.space}
+              weekLabels={weekLabels}
+              monthLabels={monthLabels}
+              emptyColor={legendColors[0]}
+              renderCell={(key, props) => renderCell(row, key, props)}
+            />
+          ) : isMonthPages ? (
+            <MonthPages
+              className={styles.heatmap}
+              width={availableWidth}
+              months={monthPages}
+              weekStart={weekStartDay}
+              rectSize={computedRectSize}
+              space={options.space}
+              monthTitles={monthLabels || defaultMonthNames()}
+              weekLabels={weekLabels}
+              emptyColor={legendColors[0]}
+              numberColor={(key) => dayNumberColor(row.countByOriginalDate, key)}
+              renderCell={(key, props) => renderCell(row, key, props)}
+            />
+          ) : isYearly ? (
+            yearRows.map((yr) => (
+              <div key={yr.label} className={styles.yearRow}>
+                <span className={styles.yearLabel}>{yr.label}</span>
+                {renderCalendar(row, yr.startKey, yr.endKey, Math.max(0, availableWidth - YEAR_LABEL_WIDTH))}
+              </div>
+            ))
+          ) : (
+            renderCalendar(row, startKey, endKey, availableWidth)
+          )}
+        </div>
+      ))}
+
+      {options.showLegend && divergingScale && (
         <div className={styles.legend}>
-          <span>{t('panel.component.legend.less', 'Less')}</span>
+          <span>{formatScaleValue(divergingScale.min)}</span>
+
+          {[...divergingScale.negative].reverse().map((color, idx) => (
+            <div
+              key={`neg-${idx}`}
+              className={styles.legendRect}
+              style={{ backgroundColor: color }}
+              title={t('panel.component.legend.tooltip.below', 'Below {{midpoint}}', {
+                midpoint: formatScaleValue(divergingScale.midpoint),
+              })}
+            />
+          ))}
 
-          {legendColors.map((color, idx) => {
-            const title =
-              idx === 0
-                ? t('panel.component.legend.tooltip.empty', 'Empty')
-                : t('panel.component.legend.tooltip.level', 'Level {{level}}', { level: idx });
+          <div
+            className={styles.legendRect}
+            style={{ backgroundColor: divergingScale.neutral }}
+            title={t('panel.component.legend.tooltip.midpoint', 'Equal to {{midpoint}}', {
+              midpoint: formatScaleValue(divergingScale.midpoint),
+            })}
+          />
+          <span className={styles.legendMidpoint}>{formatScaleValue(divergingScale.midpoint)}</span>
 
-            return (
+          {divergingScale.positive.map((color, idx) => (
+            <div
+              key={`pos-${idx}`}
+              className={styles.legendRect}
+              style={{ backgroundColor: color }}
+              title={t('panel.component.legend.tooltip.above', 'Above {{midpoint}}', {
+                midpoint: formatScaleValue(divergingScale.midpoint),
+              })}
+            />
+          ))}
+
+          <span>{formatScaleValue(divergingScale.max)}</span>
+
+          {zeroSwatch && <span style={{ marginLeft: 8 }}>{zeroSwatch}</span>}
+        </div>
+      )}
+
+      {options.showLegend && !divergingScale && (
+        <div className={styles.legend}>
+          <span>{t('panel.component.legend.less', 'Less')}</span>
+
+          {isContinuous ? (
+            <>
               <div
-                key={idx}
                 className={styles.legendRect}
-                style={{ backgroundColor: color }}
-                title={title}
+                style={{ backgroundColor: legendColors[0] }}
+                title={t('panel.component.legend.tooltip.empty', 'Empty')}
               />
-            );
-          })}
+              {zeroSwatch}
+              <div className={styles.legendGradient} style={{ background: legendGradient }} title={domainLabel} />
+            </>
+          ) : (
+            legendColors.map((color, idx) => {
+              const title = idx === 0 ? t('panel.component.legend.tooltip.empty', 'Empty') : levelRangeTitle(idx - 1);
+              const swatch = <div className={styles.legendRect} style={{ backgroundColor: color }} title={title} />;
+
+              return (
+                <React.Fragment key={idx}>
+                  {withLegendEdge(swatch, idx === 0 ? '' : formatValue(bucketBounds[idx - 1]))}
+                  {idx === 0 && zeroSwatch && withLegendEdge(zeroSwatch, formatValue(0))}
+                </React.Fragment>
+              );
+            })
+          )}
 
           <span>{t('panel.component.legend.more', 'More')}</span>
 
-          {maxValue > 0 && (
+          {isContinuous && heatmapData.length > 0 && <span style={{ marginLeft: 8 }}>({domainLabel})</span>}
+
+          {!isContinuous && maxValue > 0 && (
             <span style={{ marginLeft: 8 }}>
-              ({t('panel.component.legend.max', 'Max')}: {maxValue.toLocaleString()})
+              ({t('panel.component.legend.max', 'Max')}: {formatValue(maxValue)})
             </span>
           )}
         </div>
       )}
+
+      {options.statsPosition === 'bottom' && statsBar}
     </div>
   );
 };
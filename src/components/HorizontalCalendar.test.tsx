@@ -0,0 +1,60 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { HorizontalCalendar } from './HorizontalCalendar';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function renderCalendar(startKey: string, endKey: string, weekStart = 0) {
+  return render(
+    <HorizontalCalendar
+      startKey={startKey}
+      endKey={endKey}
+      weekStart={weekStart}
+      rectSize={10}
+      space={2}
+      weekLabels={WEEKDAYS}
+      monthLabels={MONTHS}
+      emptyColor="#eee"
+      renderCell={(key, props) => <rect {...props} data-date={key} />}
+    />
+  );
+}
+
+const monthLabels = (container: HTMLElement) =>
+  [...container.querySelectorAll('text.calendar-heatmap-label')].map((el) => el.textContent);
+
+describe('HorizontalCalendar', () => {
+  it('draws a column per week from the week start, one row per weekday', () => {
+    const { container } = renderCalendar('2024/01/03', '2024/01/16');
+    const cells = [...container.querySelectorAll('rect[data-date]')];
+
+    // Sunday 2023/12/31 through 2024/01/16
+    expect(cells).toHaveLength(17);
+    expect(cells[0].getAttribute('data-date')).toBe('2023/12/31');
+    expect(cells[7]).toHaveAttribute('x', String(28 + 12));
+    expect(cells[7]).toHaveAttribute('y', cells[0].getAttribute('y'));
+    expect(container.querySelectorAll('.calendar-heatmap-weekday')).toHaveLength(7);
+  });
+
+  it('starts weeks on the configured weekday', () => {
+    const { container } = renderCalendar('2024/01/03', '2024/01/16', 1);
+    expect(container.querySelector('rect[data-date]')).toHaveAttribute('data-date', '2024/01/01');
+  });
+
+  it('labels the columns months begin in', () => {
+    const { container } = renderCalendar('2023/12/31', '2024/03/05');
+    expect(monthLabels(container)).toEqual(['Jan', 'Feb', 'Mar']);
+  });
+
+  it('labels the first column when no month begins in it', () => {
+    const { container } = renderCalendar('2024/03/10', '2024/05/05');
+    expect(monthLabels(container)).toEqual(['Mar', 'Apr', 'May']);
+  });
+
+  it('leaves the first column unlabeled when a month begins right after it', () => {
+    const { container } = renderCalendar('2024/03/24', '2024/05/05');
+    expect(monthLabels(container)).toEqual(['Apr', 'May']);
+  });
+});
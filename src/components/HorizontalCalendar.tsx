@@ -0,0 +1,163 @@
+import React from 'react';
+import { cx } from '@emotion/css';
+import {
+  addDaysToKey,
+  dayKeysBetween,
+  isoWeekOfKey,
+  localeWeekOfKey,
+  parseDayKey,
+  startOfWeekKey,
+} from '../utils/dates';
+
+export const WEEK_LABEL_WIDTH = 28;
+const MONTH_LABEL_HEIGHT = 20;
+export const WEEK_NUMBER_HEIGHT = 14;
+
+export type WeekNumbering = 'none' | 'iso' | 'locale';
+
+interface HorizontalCalendarProps {
+  className?: string;
+  /** First and last day (YYYY/MM/DD) in the dashboard time zone */
+  startKey: string;
+  endKey: string;
+  /** Weekday of the first row, 0 = Sunday */
+  weekStart: number;
+  /** Minimum size; the svg grows to fit the grid */
+  width?: number;
+  height?: number;
+  rectSize: number;
+  space: number;
+  /** Row labels, already rotated to weekStart; false hides them */
+  weekLabels: string[] | false;
+  /** 12 month labels drawn above the week a month starts in; false hides them */
+  monthLabels: string[] | false;
+  /** Week number under (or over) every column */
+  weekNumbers?: WeekNumbering;
+  weekNumberPosition?: 'top' | 'bottom';
+  emptyColor: string;
+  /** Renders one cell; props carry position, size and the default fill */
+  renderCell: (key: string, props: React.SVGProps<SVGRectElement>) => React.ReactElement;
+}
+
+/** Height of the labels above the grid */
+export function horizontalTopPad(
+  monthLabels: boolean,
+  weekNumbers: WeekNumbering = 'none',
+  weekNumberPosition: 'top' | 'bottom' = 'bottom'
+): number {
+  const numbersOnTop = weekNumbers !== 'none' && weekNumberPosition === 'top';
+  return (monthLabels ? MONTH_LABEL_HEIGHT : 5) + (numbersOnTop ? WEEK_NUMBER_HEIGHT : 0);
+}
+
+/**
+ * Daily calendar with one column per week and one row per weekday, starting on any weekday.
+ * Laid out like the GitHub contribution graph: weekday labels on the left, months on top.
+ */
+export const HorizontalCalendar: React.FC<HorizontalCalendarProps> = ({
+  className,
+  startKey,
+  endKey,
+  weekStart,
+  width = 0,
+  height = 0,
+  rectSize,
+  space,
+  weekLabels,
+  monthLabels,
+  weekNumbers = 'none',
+  weekNumberPosition = 'bottom',
+  emptyColor,
+  renderCell,
+}) => {
+  const step = rectSize + space;
+  const leftPad = weekLabels ? WEEK_LABEL_WIDTH : 5;
+  const topPad = horizontalTopPad(!!monthLabels, weekNumbers, weekNumberPosition);
+  const showNumbers = weekNumbers !== 'none';
+
+  const weeks: string[][] = [];
+  dayKeysBetween(startOfWeekKey(startKey, weekStart), endKey).forEach((key, i) => {
+    if (i % 7 === 0) {
+      weeks.push([]);
+    }
+    weeks[weeks.length - 1].push(key);
+  });
+
+  const startsMonth = (week: string[]) => week.some((key) => parseDayKey(key)?.day === 1);
+
+  // ISO weeks are named after the week most of the column falls in; its middle day decides
+  const weekNumberOf = (firstKey: string) =>
+    weekNumbers === 'iso' ? isoWeekOfKey(addDaysToKey(firstKey, 3)).week : localeWeekOfKey(firstKey, weekStart).week;
+
+  const gridBottom = topPad + 7 * step;
+  const svgWidth = Math.max(width, leftPad + Math.max(1, weeks.length) * step);
+  const svgHeight = Math.max(
+    height,
+    gridBottom + (showNumbers && weekNumberPosition === 'bottom' ? WEEK_NUMBER_HEIGHT : 0)
+  );
+
+  return (
+    <svg
+      className={cx('calendar-heatmap', className)}
+      width={svgWidth}
+      height={svgHeight}
+      style={{ display: 'block', userSelect: 'none', fontSize: 10 }}
+    >
+      {weekLabels &&
+        weekLabels.map((label, row) => (
+          <text
+            key={row}
+            className="calendar-heatmap-weekday"
+            x={15}
+            y={topPad + (row + 1) * step - 5}
+            textAnchor="middle"
+          >
+            {label}
+          </text>
+        ))}
+
+      {weeks.map((week, col) => {
+        const x = leftPad + col * step;
+        // Label the week a month begins in, and the first week unless its label would run into the next one
+        const monthStart =
+          week.map(parseDayKey).find((d) => d?.day === 1) ??
+          (col === 0 && !weeks.slice(1, 3).some(startsMonth) ? parseDayKey(week[0]) : null);
+
+        return (
+          <g key={week[0]} data-column={col}>
+            {monthLabels && monthStart && (
+              <text className="calendar-heatmap-label" x={x + space} y={15} textAnchor="start">
+                {monthLabels[monthStart.month - 1]}
+              </text>
+            )}
+
+            {showNumbers && (
+              <text
+                data-week-number
+                x={x + rectSize / 2}
+                y={weekNumberPosition === 'top' ? topPad - 4 : gridBottom + 10}
+                textAnchor="middle"
+                fontSize={Math.min(10, Math.max(7, rectSize * 0.7))}
+                fill="currentColor"
+              >
+                {weekNumberOf(week[0])}
+              </text>
+            )}
+
+            {week.map((key, row) => (
+              <React.Fragment key={key}>
+                {renderCell(key, {
+                  x,
+                  y: topPad + row * step,
+                  width: rectSize,
+                  height: rectSize,
+                  fill: emptyColor,
+                  style: { display: 'block' },
+                })}
+              </React.Fragment>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { MonthPages, monthsInRange } from './MonthPages';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function renderPages(startKey: string, endKey: string) {
+  return render(
+    <MonthPages
+      width={600}
+      months={monthsInRange(startKey, endKey)}
+      weekStart={1}
+      rectSize={20}
+      space={2}
+      monthTitles={MONTHS}
+      weekLabels={WEEKDAYS}
+      emptyColor="#eee"
+      numberColor={() => '#000'}
+      renderCell={(key, props) => <rect {...props} data-date={key} />}
+    />
+  );
+}
+
+describe('monthsInRange', () => {
+  it('lists every month the range touches', () => {
+    expect(monthsInRange('2023/11/15', '2024/02/01')).toEqual([
+      { year: 2023, month: 10 },
+      { year: 2023, month: 11 },
+      { year: 2024, month: 0 },
+      { year: 2024, month: 1 },
+    ]);
+  });
+});
+
+describe('MonthPages', () => {
+  it('draws a titled page per month', () => {
+    const { container } = renderPages('2024/01/20', '2024/03/02');
+    const pages = [...container.querySelectorAll('svg.calendar-heatmap')];
+
+    expect(pages).toHaveLength(3);
+    expect(pages.map((page) => page.querySelector('.calendar-heatmap-label')?.textContent)).toEqual([
+      'Jan 2024',
+      'Feb 2024',
+      'Mar 2024',
+    ]);
+    expect(pages[1].querySelectorAll('rect[data-date]')).toHaveLength(29);
+  });
+
+  it('puts the first day under its weekday and numbers the days', () => {
+    const { container } = renderPages('2024/02/01', '2024/02/29');
+    const cells = [...container.querySelectorAll('rect[data-date]')];
+
+    // 2024/02/01 is a Thursday, the fourth column when weeks start on Monday
+    expect(cells[0]).toHaveAttribute('data-date', '2024/02/01');
+    expect(cells[0]).toHaveAttribute('x', String(3 * 22));
+    // Monday 2024/02/05 opens the second row
+    expect(cells[4]).toHaveAttribute('x', '0');
+    expect(Number(cells[4].getAttribute('y'))).toBe(Number(cells[0].getAttribute('y')) + 22);
+    expect(cells[0].nextElementSibling).toHaveTextContent('1');
+  });
+});
@@ -0,0 +1,142 @@
+import React from 'react';
+import { dayKey, daysInMonth, parseDayKey, weekdayOfKey } from '../utils/dates';
+
+export const MONTH_PAGE_GAP = 16;
+const TITLE_HEIGHT = 20;
+const HEADER_HEIGHT = 16;
+
+export interface MonthPage {
+  year: number;
+  /** 0-based */
+  month: number;
+}
+
+interface MonthPagesProps {
+  className?: string;
+  /** Width the pages wrap within */
+  width: number;
+  months: MonthPage[];
+  /** Weekday of the first column, 0 = Sunday */
+  weekStart: number;
+  rectSize: number;
+  space: number;
+  /** 12 month names for the page titles */
+  monthTitles: string[];
+  /** Weekday header, already rotated to weekStart; false hides it */
+  weekLabels: string[] | false;
+  emptyColor: string;
+  /** Color of the day-of-month number drawn on a cell */
+  numberColor: (key: string) => string;
+  /** Renders one cell; props carry position, size and the default fill */
+  renderCell: (key: string, props: React.SVGProps<SVGRectElement>) => React.ReactElement;
+}
+
+/** Months from the month of startKey to the month of endKey (YYYY/MM/DD), oldest first */
+export function monthsInRange(startKey: string, endKey: string): MonthPage[] {
+  const from = parseDayKey(startKey);
+  const to = parseDayKey(endKey);
+  if (!from || !to) {
+    return [];
+  }
+  const months: MonthPage[] = [];
+  const last = to.year * 12 + to.month - 1;
+  for (let i = from.year * 12 + from.month - 1; i <= last; i++) {
+    months.push({ year: Math.floor(i / 12), month: i % 12 });
+  }
+  return months;
+}
+
+/** Width of one page for a cell size */
+export function monthPageWidth(rectSize: number, space: number): number {
+  return 7 * (rectSize + space);
+}
+
+/**
+ * Wall-calendar view: one page per month with a title, weekday header and
+ * day-of-month numbers; pages wrap across the panel.
+ */
+export const MonthPages: React.FC<MonthPagesProps> = ({
+  className,
+  width,
+  months,
+  weekStart,
+  rectSize,
+  space,
+  monthTitles,
+  weekLabels,
+  emptyColor,
+  numberColor,
+  renderCell,
+}) => {
+  const step = rectSize + space;
+  const headerHeight = weekLabels ? HEADER_HEIGHT : 0;
+  const fontSize = Math.max(8, Math.min(14, Math.round(rectSize * 0.45)));
+
+  return (
+    <div className={className} style={{ display: 'flex', flexWrap: 'wrap', gap: MONTH_PAGE_GAP, width }}>
+      {months.map(({ year, month }) => {
+        const offset = (weekdayOfKey(dayKey(year, month + 1, 1)) - weekStart + 7) % 7;
+        const dayCount = daysInMonth(year, month + 1);
+        const weekRows = Math.ceil((offset + dayCount) / 7);
+
+        return (
+          <svg
+            key={`${year}-${month}`}
+            className="calendar-heatmap"
+            width={monthPageWidth(rectSize, space)}
+            height={TITLE_HEIGHT + headerHeight + weekRows * step}
+            style={{ display: 'block', userSelect: 'none' }}
+          >
+            <text className="calendar-heatmap-label" x={0} y={14} textAnchor="start">
+              {`${monthTitles[month]} ${year}`}
+            </text>
+
+            {weekLabels &&
+              weekLabels.map((label, col) => (
+                <text
+                  key={col}
+                  className="calendar-heatmap-weekday"
+                  x={col * step + rectSize / 2}
+                  y={TITLE_HEIGHT + 11}
+                  textAnchor="middle"
+                >
+                  {label}
+                </text>
+              ))}
+
+            {Array.from({ length: dayCount }, (_, i) => {
+              const cell = offset + i;
+              const x = (cell % 7) * step;
+              const y = TITLE_HEIGHT + headerHeight + Math.floor(cell / 7) * step;
+              const key = dayKey(year, month + 1, i + 1);
+
+              return (
+                <g key={key}>
+                  {renderCell(key, {
+                    x,
+                    y,
+                    width: rectSize,
+                    height: rectSize,
+                    fill: emptyColor,
+                    style: { display: 'block' },
+                  })}
+                  <text
+                    x={x + rectSize / 2}
+                    y={y + rectSize / 2}
+                    dy="0.35em"
+                    textAnchor="middle"
+                    fontSize={fontSize}
+                    fill={numberColor(key)}
+                    pointerEvents="none"
+                  >
+                    {i + 1}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        );
+      })}
+    </div>
+  );
+};
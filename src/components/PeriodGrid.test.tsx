@@ -0,0 +1,56 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { PeriodGrid } from './PeriodGrid';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function renderGrid(granularity: 'week' | 'month', years: number[], columnLabels: string[] | false = false) {
+  return render(
+    <PeriodGrid
+      granularity={granularity}
+      years={years}
+      rectSize={10}
+      space={2}
+      columnLabels={columnLabels}
+      emptyColor="#eee"
+      renderCell={(key, props) => <rect {...props} data-key={key} />}
+    />
+  );
+}
+
+const keysOf = (container: HTMLElement) =>
+  [...container.querySelectorAll('rect[data-key]')].map((el) => el.getAttribute('data-key'));
+
+describe('PeriodGrid', () => {
+  it('draws a row of twelve months per year', () => {
+    const { container } = renderGrid('month', [2023, 2024], MONTHS);
+    const keys = keysOf(container);
+
+    expect(keys).toHaveLength(24);
+    expect(keys[0]).toBe('2023/01');
+    expect(keys[23]).toBe('2024/12');
+    expect([...container.querySelectorAll('.calendar-heatmap-weekday')].map((el) => el.textContent)).toEqual([
+      '2023',
+      '2024',
+    ]);
+    expect(container.querySelectorAll('.calendar-heatmap-label')).toHaveLength(12);
+  });
+
+  it('draws week 53 only for years that have one', () => {
+    const { container } = renderGrid('week', [2020, 2021]);
+    const keys = keysOf(container);
+
+    expect(keys).toHaveLength(53 + 52);
+    expect(keys).toContain('2020/53');
+    expect(keys).not.toContain('2021/53');
+  });
+
+  it('skips empty column labels', () => {
+    const { container } = renderGrid('week', [2024], ['W1', '', '', '', 'W5']);
+    expect([...container.querySelectorAll('.calendar-heatmap-label')].map((el) => el.textContent)).toEqual([
+      'W1',
+      'W5',
+    ]);
+  });
+});
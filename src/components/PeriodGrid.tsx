@@ -0,0 +1,104 @@
+import React from 'react';
+import { cx } from '@emotion/css';
+import { isoWeeksInYear, periodKeyAt } from '../utils/periods';
+
+export const YEAR_LABEL_WIDTH = 36;
+export const PERIOD_TOP_PAD = 20;
+
+interface PeriodGridProps {
+  className?: string;
+  granularity: 'week' | 'month';
+  /** One grid row per year */
+  years: number[];
+  rectSize: number;
+  space: number;
+  /** Column header labels (12 months, or week numbers); false hides the header */
+  columnLabels: string[] | false;
+  emptyColor: string;
+  /** Renders one cell; props carry position, size and the default fill */
+  renderCell: (key: string, props: React.SVGProps<SVGRectElement>) => React.ReactElement;
+}
+
+/** Number of columns of a year × period grid */
+export function periodColumnCount(granularity: 'week' | 'month'): number {
+  return granularity === 'week' ? 53 : 12;
+}
+
+/**
+ * Year × week (ISO) or year × month grid, used when the panel buckets by week or month.
+ * Week 53 is only drawn for years that have one.
+ */
+export const PeriodGrid: React.FC<PeriodGridProps> = ({
+  className,
+  granularity,
+  years,
+  rectSize,
+  space,
+  columnLabels,
+  emptyColor,
+  renderCell,
+}) => {
+  const columns = periodColumnCount(granularity);
+  const step = rectSize + space;
+  const topPad = columnLabels ? PERIOD_TOP_PAD : 5;
+
+  const svgWidth = YEAR_LABEL_WIDTH + columns * step;
+  const svgHeight = topPad + years.length * step;
+
+  return (
+    <svg
+      className={cx('calendar-heatmap', className)}
+      width={svgWidth}
+      height={svgHeight}
+      style={{ display: 'block', userSelect: 'none' }}
+    >
+      {columnLabels &&
+        columnLabels.map((label, col) =>
+          label ? (
+            <text
+              key={col}
+              className="calendar-heatmap-label"
+              x={YEAR_LABEL_WIDTH + col * step}
+              y={15}
+              textAnchor="start"
+            >
+              {label}
+            </text>
+          ) : null
+        )}
+
+      {years.map((year, row) => {
+        const lastColumn = granularity === 'week' ? isoWeeksInYear(year) : columns;
+
+        return (
+          <g key={year} data-year={year}>
+            <text
+              className="calendar-heatmap-weekday"
+              x={YEAR_LABEL_WIDTH - 6}
+              y={topPad + row * step + rectSize * 0.8}
+              textAnchor="end"
+            >
+              {year}
+            </text>
+
+            {Array.from({ length: lastColumn }, (_, col) => {
+              const key = periodKeyAt(year, col);
+              return (
+                <React.Fragment key={key}>
+                  {renderCell(key, {
+                    x: YEAR_LABEL_WIDTH + col * step,
+                    y: topPad + row * step,
+                    width: rectSize,
+                    height: rectSize,
+                    fill: emptyColor,
+                    style: { display: 'block' },
+                  })}
+                </React.Fragment>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { cx } from '@emotion/css';
+import { hourOfWeekKey } from '../utils/periods';
+
+const HOUR_TOP_PAD = 20;
+
+interface PunchCardProps {
+  className?: string;
+  /** Weekday of the first row, 0 = Sunday */
+  weekStart: number;
+  rectSize: number;
+  space: number;
+  /** Row labels, already rotated to weekStart; false hides them */
+  weekLabels: string[] | false;
+  emptyColor: string;
+  /** Renders one cell; props carry position, size and the default fill */
+  renderCell: (key: string, props: React.SVGProps<SVGRectElement>) => React.ReactElement;
+}
+
+/** Weekday × hour-of-day matrix: 7 rows, 24 columns */
+export const PunchCard: React.FC<PunchCardProps> = ({
+  className,
+  weekStart,
+  rectSize,
+  space,
+  weekLabels,
+  emptyColor,
+  renderCell,
+}) => {
+  const step = rectSize + space;
+  const leftPad = weekLabels ? 28 : 5;
+
+  const svgWidth = leftPad + 24 * step;
+  const svgHeight = HOUR_TOP_PAD + 7 * step;
+
+  return (
+    <svg
+      className={cx('calendar-heatmap', className)}
+      width={svgWidth}
+      height={svgHeight}
+      style={{ display: 'block', userSelect: 'none' }}
+    >
+      {Array.from({ length: 8 }, (_, i) => (
+        <text key={i} className="calendar-heatmap-label" x={leftPad + i * 3 * step} y={15} textAnchor="start">
+          {String(i * 3).padStart(2, '0')}
+        </text>
+      ))}
+
+      {Array.from({ length: 7 }, (_, row) => {
+        const weekday = (weekStart + row) % 7;
+
+        return (
+          <g key={weekday} data-weekday={weekday}>
+            {weekLabels && (
+              <text
+                className="calendar-heatmap-weekday"
+                x={15}
+                y={HOUR_TOP_PAD + row * step + rectSize * 0.8}
+                textAnchor="middle"
+              >
+                {weekLabels[row]}
+              </text>
+            )}
+
+            {Array.from({ length: 24 }, (_, hour) => {
+              const key = hourOfWeekKey(weekday, hour);
+              return (
+                <React.Fragment key={key}>
+                  {renderCell(key, {
+                    x: leftPad + hour * step,
+                    y: HOUR_TOP_PAD + row * step,
+                    width: rectSize,
+                    height: rectSize,
+                    fill: emptyColor,
+                    style: { display: 'block' },
+                  })}
+                </React.Fragment>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+
+import { VerticalCalendar } from './VerticalCalendar';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function renderCalendar(startKey: string, endKey: string) {
+  return render(
+    <VerticalCalendar
+      startKey={startKey}
+      endKey={endKey}
+      weekStart={1}
+      rectSize={10}
+      space={2}
+      weekLabels={WEEKDAYS}
+      monthLabels={MONTHS}
+      emptyColor="#eee"
+      renderCell={(key, props) => <rect {...props} data-date={key} />}
+    />
+  );
+}
+
+describe('VerticalCalendar', () => {
+  it('draws a row per week and a column per weekday', () => {
+    const { container } = renderCalendar('2024/03/06', '2024/03/17');
+    const cells = [...container.querySelectorAll('rect[data-date]')];
+
+    // Monday 2024/03/04 through Sunday 2024/03/17
+    expect(cells).toHaveLength(14);
+    expect(cells[0]).toHaveAttribute('data-date', '2024/03/04');
+    expect(cells[6]).toHaveAttribute('x', String(32 + 6 * 12));
+    expect(cells[7]).toHaveAttribute('x', String(32));
+    expect(cells[7]).toHaveAttribute('y', String(20 + 12));
+    expect([...container.querySelectorAll('.calendar-heatmap-weekday')].map((el) => el.textContent)).toEqual(WEEKDAYS);
+  });
+
+  it('labels the first row and the rows months begin in', () => {
+    const { container } = renderCalendar('2024/03/06', '2024/05/05');
+    const labels = [...container.querySelectorAll('text.calendar-heatmap-label')].map((el) => el.textContent);
+    expect(labels).toEqual(['Mar', 'Apr', 'May']);
+  });
+
+  it('hides the header and month labels when they are off', () => {
+    const { container } = render(
+      <VerticalCalendar
+        startKey="2024/03/04"
+        endKey="2024/03/10"
+        weekStart={1}
+        rectSize={10}
+        space={2}
+        weekLabels={false}
+        monthLabels={false}
+        emptyColor="#eee"
+        renderCell={(key, props) => <rect {...props} data-date={key} />}
+      />
+    );
+    expect(container.querySelectorAll('text')).toHaveLength(0);
+    expect(container.querySelector('rect[data-date]')).toHaveAttribute('x', '5');
+  });
+});
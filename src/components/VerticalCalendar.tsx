@@ -0,0 +1,111 @@
+import React from 'react';
+import { cx } from '@emotion/css';
+import { dayKeysBetween, parseDayKey, startOfWeekKey } from '../utils/dates';
+
+export const MONTH_LABEL_WIDTH = 32;
+const WEEKDAY_TOP_PAD = 20;
+
+interface VerticalCalendarProps {
+  className?: string;
+  /** First and last day (YYYY/MM/DD) in the dashboard time zone */
+  startKey: string;
+  endKey: string;
+  /** Weekday of the first column, 0 = Sunday */
+  weekStart: number;
+  rectSize: number;
+  space: number;
+  /** Column header labels, already rotated to weekStart; false hides the header */
+  weekLabels: string[] | false;
+  /** 12 month labels drawn beside the week a month starts in; false hides them */
+  monthLabels: string[] | false;
+  emptyColor: string;
+  /** Renders one cell; props carry position, size and the default fill */
+  renderCell: (key: string, props: React.SVGProps<SVGRectElement>) => React.ReactElement;
+}
+
+/**
+ * Daily calendar turned on its side: one row per week, one column per weekday.
+ * Meant for narrow panels, where a horizontal strip would leave unreadable cells.
+ */
+export const VerticalCalendar: React.FC<VerticalCalendarProps> = ({
+  className,
+  startKey,
+  endKey,
+  weekStart,
+  rectSize,
+  space,
+  weekLabels,
+  monthLabels,
+  emptyColor,
+  renderCell,
+}) => {
+  const step = rectSize + space;
+  const leftPad = monthLabels ? MONTH_LABEL_WIDTH : 5;
+  const topPad = weekLabels ? WEEKDAY_TOP_PAD : 5;
+
+  const weeks: string[][] = [];
+  dayKeysBetween(startOfWeekKey(startKey, weekStart), endKey).forEach((key, i) => {
+    if (i % 7 === 0) {
+      weeks.push([]);
+    }
+    weeks[weeks.length - 1].push(key);
+  });
+
+  const svgWidth = leftPad + 7 * step;
+  const svgHeight = topPad + Math.max(1, weeks.length) * step;
+
+  return (
+    <svg
+      className={cx('calendar-heatmap', className)}
+      width={svgWidth}
+      height={svgHeight}
+      style={{ display: 'block', userSelect: 'none' }}
+    >
+      {weekLabels &&
+        weekLabels.map((label, col) => (
+          <text
+            key={col}
+            className="calendar-heatmap-weekday"
+            x={leftPad + col * step + rectSize / 2}
+            y={15}
+            textAnchor="middle"
+          >
+            {label}
+          </text>
+        ))}
+
+      {weeks.map((week, row) => {
+        // Label the week a month begins in (the first week too, so the top row is never unlabeled)
+        const monthStart = week.map(parseDayKey).find((d) => d?.day === 1) ?? (row === 0 ? parseDayKey(week[0]) : null);
+
+        return (
+          <g key={week[0]} data-row={row}>
+            {monthLabels && monthStart && (
+              <text
+                className="calendar-heatmap-label"
+                x={leftPad - 6}
+                y={topPad + row * step + rectSize * 0.8}
+                textAnchor="end"
+              >
+                {monthLabels[monthStart.month - 1]}
+              </text>
+            )}
+
+            {week.map((key, col) => (
+              <React.Fragment key={key}>
+                {renderCell(key, {
+                  x: leftPad + col * step,
+                  y: topPad + row * step,
+                  width: rectSize,
+                  height: rectSize,
+                  fill: emptyColor,
+                  style: { display: 'block' },
+                })}
+              </React.Fragment>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
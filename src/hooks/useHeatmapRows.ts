@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { PanelData } from '@grafana/data';
+import { CalendarHeatmapOptions, HeatmapValue } from '../types';
+import {
+  ComparedValue,
+  HeatmapRow,
+  ProcessOptions,
+  compareValues,
+  groupSplitFrames,
+  processSplitData,
+  processTimeSeriesData,
+} from '../utils/dataProcessor';
+import { Granularity, shiftPeriodKey } from '../utils/periods';
+
+interface CellKeying {
+  timeZone: string;
+  granularity: Granularity;
+  isPunchCard: boolean;
+  /** Minutes after midnight a day starts at */
+  dayStart: number;
+}
+
+export interface HeatmapRows {
+  /** Frames drawn by the panel: everything but the reference query */
+  drawnSeries: PanelData['series'];
+  processOptions: ProcessOptions;
+  /** Aggregated values of every row */
+  valueRows: HeatmapRow[];
+  isComparing: boolean;
+  compareMetric: CalendarHeatmapOptions['compareMetric'];
+  /** Current / reference / change of every cell, per row; null when not comparing */
+  comparisons: Array<Map<string, ComparedValue>> | null;
+  /** The rows as drawn: the values, or the changes when comparing */
+  rows: HeatmapRow[];
+}
+
+/** Split the series into rows, aggregate them and, when comparing, swap their values for the changes */
+export function useHeatmapRows(
+  data: PanelData,
+  options: CalendarHeatmapOptions,
+  { timeZone, granularity, isPunchCard, dayStart }: CellKeying
+): HeatmapRows {
+  // Period-over-period comparison (daily calendar only)
+  const compareTo = !isPunchCard && granularity === 'day' ? (options.compareTo ?? 'none') : 'none';
+  const isComparing = compareTo !== 'none';
+  const compareRefId = (options.compareRefId ?? '').trim();
+  const compareMetric = options.compareMetric ?? 'delta';
+
+  // The reference query is not drawn itself
+  const drawnSeries = useMemo(() => {
+    return compareTo === 'query' ? data.series.filter((frame) => frame.refId !== compareRefId) : data.series;
+  }, [compareTo, compareRefId, data.series]);
+
+  const processOptions = useMemo(
+    () => ({
+      valueField: options.valueField,
+      combineFields: options.combineFields,
+      // a zero day is still a valid reference
+      keepZeros: options.showZeros || isComparing,
+      granularity,
+      punchCard: isPunchCard,
+      dayStart,
+    }),
+    [options.valueField, options.combineFields, options.showZeros, isComparing, granularity, isPunchCard, dayStart]
+  );
+
+  const splitOptions = useMemo(
+    () => ({ splitBy: options.splitBy ?? 'none', splitLabel: options.splitLabel, sort: options.splitSort }),
+    [options.splitBy, options.splitLabel, options.splitSort]
+  );
+
+  const valueRows = useMemo(() => {
+    return processSplitData(drawnSeries, options.aggregation, timeZone, processOptions, splitOptions);
+  }, [drawnSeries, options.aggregation, timeZone, processOptions, splitOptions]);
+
+  const comparisons = useMemo(() => {
+    if (!isComparing) {
+      return null;
+    }
+
+    if (compareTo === 'query') {
+      // Every row is compared with the reference frames of the same series / label value
+      const referenceSeries = data.series.filter((frame) => frame.refId === compareRefId);
+      const referenceGroups = groupSplitFrames(referenceSeries, splitOptions);
+      return valueRows.map((row) => {
+        const frames = referenceGroups.get(row.name) ?? [];
+        const referenceValues = processTimeSeriesData(frames, options.aggregation, timeZone, processOptions);
+        const reference = new Map(referenceValues.map((d) => [d.date, d.count]));
+        return compareValues(row.values, reference, (key) => key, compareMetric);
+      });
+    }
+
+    const unit = compareTo === 'weekAgo' ? 'week' : 'year';
+    return valueRows.map((row) =>
+      compareValues(
+        row.values,
+        new Map(row.values.map((d) => [d.date, d.count])),
+        (key) => shiftPeriodKey(key, 'day', -1, unit),
+        compareMetric
+      )
+    );
+  }, [
+    isComparing,
+    compareTo,
+    compareRefId,
+    compareMetric,
+    data.series,
+    options.aggregation,
+    timeZone,
+    processOptions,
+    splitOptions,
+    valueRows,
+  ]);
+
+  // When comparing, cells carry the change; days without a usable reference stay empty
+  const rows = useMemo(() => {
+    if (!comparisons) {
+      return valueRows;
+    }
+    return valueRows.map((row, idx) => {
+      const values: HeatmapValue[] = [];
+      comparisons[idx].forEach(({ change }, date) => {
+        if (change !== undefined) {
+          values.push({ date, count: change });
+        }
+      });
+      return { ...row, values };
+    });
+  }, [valueRows, comparisons]);
+
+  return { drawnSeries, processOptions, valueRows, isComparing, compareMetric, comparisons, rows };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useMemo } from 'react';
+import { CalendarHeatmapOptions } from '../types';
+import { isWeekendKey, parseHolidays } from '../utils/holidays';
+
+export interface Holidays {
+  /** Holiday names by day key; empty unless cells are days */
+  holidays: Map<string, string>;
+  /** A holiday, or a weekend when weekends are marked */
+  isNonWorkingDay: (key: string) => boolean;
+}
+
+/** Holidays and weekends of the options; they only apply to daily cells */
+export function useHolidays(options: CalendarHeatmapOptions, isDaily: boolean): Holidays {
+  const holidays = useMemo(() => {
+    return isDaily ? parseHolidays(options.holidays) : new Map<string, string>();
+  }, [isDaily, options.holidays]);
+
+  const isNonWorkingDay = useCallback(
+    (key: string) => isDaily && (holidays.has(key) || (options.markWeekends && isWeekendKey(key))),
+    [isDaily, holidays, options.markWeekends]
+  );
+
+  return { holidays, isNonWorkingDay };
+}
@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { CalendarHeatmapOptions } from '../types';
+import { processTimeSeriesData } from '../utils/dataProcessor';
+import { SummaryStats, computeSummaryStats } from '../utils/stats';
+import { HeatmapRows } from './useHeatmapRows';
+
+/**
+ * Summary of the aggregated values (not the comparison changes), or null when the stats are off.
+ * Split rows are aggregated again as one series: summing per-row averages or maxima would not give
+ * the panel's average or maximum. With daily cells, streaks end at endKey (the last day of the range).
+ */
+export function useSummaryStats(
+  options: CalendarHeatmapOptions,
+  { drawnSeries, processOptions, valueRows }: HeatmapRows,
+  timeZone: string,
+  daily: boolean,
+  endKey: string
+): SummaryStats | null {
+  return useMemo(() => {
+    if (!options.showStats) {
+      return null;
+    }
+    const keepZeros = !!options.showZeros;
+    const values =
+      valueRows.length === 1 && processOptions.keepZeros === keepZeros
+        ? valueRows[0].values
+        : processTimeSeriesData(drawnSeries, options.aggregation, timeZone, { ...processOptions, keepZeros });
+    return computeSummaryStats(values, { daily, endKey: daily ? endKey : undefined });
+  }, [
+    options.showStats,
+    options.showZeros,
+    options.aggregation,
+    valueRows,
+    drawnSeries,
+    timeZone,
+    processOptions,
+    daily,
+    endKey,
+  ]);
+}
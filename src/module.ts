@@ -1,14 +1,96 @@
-import { PanelPlugin } from '@grafana/data';
+import { FieldColorModeId, FieldConfigProperty, PanelPlugin, SelectFieldConfigSettings } from '@grafana/data';
 import { CalendarHeatmapPanel } from './components/CalendarHeatmapPanel';
 import { CalendarHeatmapOptions } from './types';
+import { DEFAULT_STATS, SummaryStat } from './utils/stats';
 import { initPluginTranslations, t } from '@grafana/i18n';
 import pluginJson from './plugin.json';
 
 await initPluginTranslations(pluginJson.id);
 
+/** Comparison only applies to the daily calendar */
+function isComparing(options: CalendarHeatmapOptions): boolean {
+  return (
+    (options.compareTo ?? 'none') !== 'none' &&
+    options.displayMode !== 'punchCard' &&
+    (options.granularity ?? 'day') === 'day'
+  );
+}
+
 export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPanel).setPanelOptions((builder) => {
   return builder
     // Color settings
+    .addRadio({
+      path: 'colorMode',
+      name: t('panel.options.colorMode.name', 'Color mode'),
+      description: t(
+        'panel.options.colorMode.description',
+        'Discrete shades, a continuous gradient using the Color scheme of the standard options, or two palettes around a midpoint'
+      ),
+      defaultValue: 'discrete',
+      category: ['Colors'],
+      settings: {
+        options: [
+          { value: 'discrete', label: t('panel.options.colorMode.options.discrete', 'Discrete') },
+          { value: 'continuous', label: t('panel.options.colorMode.options.continuous', 'Continuous') },
+          { value: 'diverging', label: t('panel.options.colorMode.options.diverging', 'Diverging') },
+        ],
+      },
+    })
+    .addNumberInput({
+      path: 'divergingMidpoint',
+      name: t('panel.options.divergingMidpoint.name', 'Midpoint'),
+      description: t('panel.options.divergingMidpoint.description', 'Value separating the negative and positive palettes'),
+      defaultValue: 0,
+      category: ['Colors'],
+      showIf: (options) => options.colorMode === 'diverging',
+    })
+    .addSelect({
+      path: 'negativeScheme',
+      name: t('panel.options.negativeScheme.name', 'Below midpoint'),
+      description: t('panel.options.negativeScheme.description', 'Palette for values below the midpoint'),
+      defaultValue: 'red',
+      category: ['Colors'],
+      settings: {
+        options: [
+          { value: 'red', label: t('panel.options.colorScheme.options.red', 'Red') },
+          { value: 'orange', label: t('panel.options.colorScheme.options.orange', 'Orange') },
+          { value: 'yellow', label: t('panel.options.colorScheme.options.yellow', 'Yellow') },
+          { value: 'green', label: t('panel.options.colorScheme.options.green', 'Green') },
+          { value: 'blue', label: t('panel.options.colorScheme.options.blue', 'Blue') },
+          { value: 'purple', label: t('panel.options.colorScheme.options.purple', 'Purple') },
+        ],
+      },
+      showIf: (options) => options.colorMode === 'diverging' || isComparing(options),
+    })
+    .addSelect({
+      path: 'positiveScheme',
+      name: t('panel.options.positiveScheme.name', 'Above midpoint'),
+      description: t('panel.options.positiveScheme.description', 'Palette for values above the midpoint'),
+      defaultValue: 'green',
+      category: ['Colors'],
+      settings: {
+        options: [
+          { value: 'green', label: t('panel.options.colorScheme.options.green', 'Green') },
+          { value: 'blue', label: t('panel.options.colorScheme.options.blue', 'Blue') },
+          { value: 'red', label: t('panel.options.colorScheme.options.red', 'Red') },
+          { value: 'yellow', label: t('panel.options.colorScheme.options.yellow', 'Yellow') },
+          { value: 'purple', label: t('panel.options.colorScheme.options.purple', 'Purple') },
+          { value: 'orange', label: t('panel.options.colorScheme.options.orange', 'Orange') },
+        ],
+      },
+      showIf: (options) => options.colorMode === 'diverging' || isComparing(options),
+    })
+    .addBooleanSwitch({
+      path: 'divergingSymmetric',
+      name: t('panel.options.divergingSymmetric.name', 'Symmetric domain'),
+      description: t(
+        'panel.options.divergingSymmetric.description',
+        'Use the same extent on both sides of the midpoint so equal distances get equal shades'
+      ),
+      defaultValue: true,
+      category: ['Colors'],
+      showIf: (options) => options.colorMode === 'diverging',
+    })
     .addSelect({
       path: 'colorScheme',
       name: t('panel.options.colorScheme.name', 'Color Scheme'),
@@ -39,6 +121,19 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       category: ['Colors'],
       showIf: (options) => options.colorScheme === 'custom',
     })
+    .addSliderInput({
+      path: 'levelCount',
+      name: t('panel.options.levelCount.name', 'Color levels'),
+      description: t('panel.options.levelCount.description', 'Number of colored shades (per side in diverging mode)'),
+      defaultValue: 4,
+      category: ['Colors'],
+      settings: {
+        min: 2,
+        max: 10,
+        step: 1,
+      },
+      showIf: (options) => options.colorMode !== 'continuous',
+    })
 
     // Layout settings
     .addBooleanSwitch({
@@ -85,6 +180,131 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
         step: 1,
       },
     })
+    .addRadio({
+      path: 'layout',
+      name: t('panel.options.layout.name', 'Layout'),
+      description: t(
+        'panel.options.layout.description',
+        'One continuous strip, one row per year sharing cell size and colors, or one calendar page per month'
+      ),
+      defaultValue: 'continuous',
+      category: ['Layout'],
+      settings: {
+        options: [
+          { value: 'continuous', label: t('panel.options.layout.options.continuous', 'Continuous') },
+          { value: 'yearly', label: t('panel.options.layout.options.yearly', 'Row per year') },
+          { value: 'months', label: t('panel.options.layout.options.months', 'Month pages') },
+        ],
+      },
+      showIf: (options) => options.displayMode !== 'punchCard' && (options.granularity ?? 'day') === 'day',
+    })
+    .addSelect({
+      path: 'alignRange',
+      name: t('panel.options.alignRange.name', 'Align range to'),
+      description: t(
+        'panel.options.alignRange.description',
+        'Widen the calendar to whole periods around the dashboard time range'
+      ),
+      defaultValue: 'none',
+      category: ['Layout'],
+      settings: {
+        options: [
+          { value: 'none', label: t('panel.options.alignRange.options.none', 'Time range') },
+          { value: 'calendarYear', label: t('panel.options.alignRange.options.calendarYear', 'Calendar year') },
+          { value: 'fiscalYear', label: t('panel.options.alignRange.options.fiscalYear', 'Fiscal year') },
+          { value: 'quarter', label: t('panel.options.alignRange.options.quarter', 'Quarter') },
+          { value: 'weeks', label: t('panel.options.alignRange.options.weeks', 'Last N full weeks') },
+        ],
+      },
+      showIf: (options) => options.displayMode !== 'punchCard' && (options.granularity ?? 'day') === 'day',
+    })
+    .addSliderInput({
+      path: 'alignWeeks',
+      name: t('panel.options.alignWeeks.name', 'Weeks'),
+      description: t('panel.options.alignWeeks.description', 'Number of whole weeks, ending with the current week'),
+      defaultValue: 12,
+      category: ['Layout'],
+      settings: {
+        min: 1,
+        max: 104,
+        step: 1,
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        options.alignRange === 'weeks',
+    })
+    .addSelect({
+      path: 'yearStartMonth',
+      name: t('panel.options.yearStartMonth.name', 'Year starts in'),
+      description: t(
+        'panel.options.yearStartMonth.description',
+        'First month of the fiscal year, for yearly rows, fiscal-year and quarter alignment'
+      ),
+      defaultValue: 1,
+      category: ['Layout'],
+      settings: {
+        options: [
+          { value: 1, label: t('panel.options.yearStartMonth.options.jan', 'January') },
+          { value: 2, label: t('panel.options.yearStartMonth.options.feb', 'February') },
+          { value: 3, label: t('panel.options.yearStartMonth.options.mar', 'March') },
+          { value: 4, label: t('panel.options.yearStartMonth.options.apr', 'April') },
+          { value: 5, label: t('panel.options.yearStartMonth.options.may', 'May') },
+          { value: 6, label: t('panel.options.yearStartMonth.options.jun', 'June') },
+          { value: 7, label: t('panel.options.yearStartMonth.options.jul', 'July') },
+          { value: 8, label: t('panel.options.yearStartMonth.options.aug', 'August') },
+          { value: 9, label: t('panel.options.yearStartMonth.options.sep', 'September') },
+          { value: 10, label: t('panel.options.yearStartMonth.options.oct', 'October') },
+          { value: 11, label: t('panel.options.yearStartMonth.options.nov', 'November') },
+          { value: 12, label: t('panel.options.yearStartMonth.options.dec', 'December') },
+        ],
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        (options.layout === 'yearly' || options.alignRange === 'fiscalYear' || options.alignRange === 'quarter'),
+    })
+    .addRadio({
+      path: 'orientation',
+      name: t('panel.options.orientation.name', 'Orientation'),
+      description: t(
+        'panel.options.orientation.description',
+        'Vertical puts weeks in rows and weekdays in columns, and sizes cells to the panel height'
+      ),
+      defaultValue: 'horizontal',
+      category: ['Layout'],
+      settings: {
+        options: [
+          { value: 'horizontal', label: t('panel.options.orientation.options.horizontal', 'Horizontal') },
+          { value: 'vertical', label: t('panel.options.orientation.options.vertical', 'Vertical') },
+        ],
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        (options.layout ?? 'continuous') === 'continuous',
+    })
+    .addRadio({
+      path: 'futureDays',
+      name: t('panel.options.futureDays.name', 'Future days'),
+      description: t(
+        'panel.options.futureDays.description',
+        'How the days alignment adds after the end of the time range look, e.g. the rest of the current year. Days with data always show as usual'
+      ),
+      defaultValue: 'faded',
+      category: ['Layout'],
+      settings: {
+        options: [
+          { value: 'show', label: t('panel.options.futureDays.options.show', 'Normal') },
+          { value: 'faded', label: t('panel.options.futureDays.options.faded', 'Faded') },
+          { value: 'hidden', label: t('panel.options.futureDays.options.hidden', 'Hidden') },
+        ],
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        (options.alignRange ?? 'none') !== 'none',
+    })
 
     // Label settings
     .addBooleanSwitch({
@@ -108,12 +328,114 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       defaultValue: true,
       category: ['Labels'],
     })
+    .addBooleanSwitch({
+      path: 'showLegendEdges',
+      name: t('panel.options.showLegendEdges.name', 'Show bucket edges'),
+      description: t('panel.options.showLegendEdges.description', 'Show the lower bound of each color level in the legend'),
+      defaultValue: true,
+      category: ['Labels'],
+      showIf: (options) => options.showLegend && options.colorMode === 'discrete',
+    })
+    .addBooleanSwitch({
+      path: 'showStats',
+      name: t('panel.options.showStats.name', 'Show stats'),
+      description: t('panel.options.showStats.description', 'Show a bar with summary statistics of the calendar'),
+      defaultValue: false,
+      category: ['Labels'],
+    })
+    .addRadio({
+      path: 'statsPosition',
+      name: t('panel.options.statsPosition.name', 'Stats position'),
+      defaultValue: 'top',
+      category: ['Labels'],
+      settings: {
+        options: [
+          { value: 'top', label: t('panel.options.statsPosition.options.top', 'Top') },
+          { value: 'bottom', label: t('panel.options.statsPosition.options.bottom', 'Bottom') },
+        ],
+      },
+      showIf: (options) => options.showStats,
+    })
+    // The option holds a list of stats, but every entry of the picker is a single stat
+    .addMultiSelect<SummaryStat[] | SummaryStat, SelectFieldConfigSettings<SummaryStat>>({
+      path: 'stats',
+      name: t('panel.options.stats.name', 'Stats'),
+      description: t(
+        'panel.options.stats.description',
+        'Streaks and the busiest weekday are only shown with day granularity. The average is taken over the cells with data, so empty days, weeks or months do not lower it'
+      ),
+      defaultValue: DEFAULT_STATS,
+      category: ['Labels'],
+      settings: {
+        options: [
+          { value: 'total', label: t('panel.options.stats.options.total', 'Total') },
+          { value: 'average', label: t('panel.options.stats.options.average', 'Daily average') },
+          { value: 'activeDays', label: t('panel.options.stats.options.activeDays', 'Active days') },
+          { value: 'currentStreak', label: t('panel.options.stats.options.currentStreak', 'Current streak') },
+          { value: 'longestStreak', label: t('panel.options.stats.options.longestStreak', 'Longest streak') },
+          { value: 'busiestDay', label: t('panel.options.stats.options.busiestDay', 'Busiest day') },
+          { value: 'busiestWeekday', label: t('panel.options.stats.options.busiestWeekday', 'Busiest weekday') },
+        ],
+      },
+      showIf: (options) => options.showStats,
+    })
 
     // Data settings
+    .addRadio({
+      path: 'displayMode',
+      name: t('panel.options.displayMode.name', 'Display mode'),
+      description: t(
+        'panel.options.displayMode.description',
+        'Calendar of days, weeks or months, or a punch card of weekday × hour of day'
+      ),
+      defaultValue: 'calendar',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'calendar', label: t('panel.options.displayMode.options.calendar', 'Calendar') },
+          { value: 'punchCard', label: t('panel.options.displayMode.options.punchCard', 'Punch card') },
+        ],
+      },
+    })
+    .addRadio({
+      path: 'granularity',
+      name: t('panel.options.granularity.name', 'Granularity'),
+      description: t(
+        'panel.options.granularity.description',
+        'Bucket values per day, per ISO week (year × week grid) or per month (year × month grid)'
+      ),
+      defaultValue: 'day',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'day', label: t('panel.options.granularity.options.day', 'Day') },
+          { value: 'week', label: t('panel.options.granularity.options.week', 'Week') },
+          { value: 'month', label: t('panel.options.granularity.options.month', 'Month') },
+        ],
+      },
+      showIf: (options) => options.displayMode !== 'punchCard',
+    })
+    .addTextInput({
+      path: 'dayStart',
+      name: t('panel.options.dayStart.name', 'Day starts at'),
+      description: t(
+        'panel.options.dayStart.description',
+        'Time of day (HH:MM) a day begins, e.g. 06:00 for shifts; earlier points count towards the day before'
+      ),
+      defaultValue: '00:00',
+      category: ['Data'],
+      settings: {
+        placeholder: '00:00',
+      },
+      showIf: (options) => options.displayMode !== 'punchCard',
+    })
     .addSelect({
       path: 'aggregation',
       name: t('panel.options.aggregation.name', 'Aggregation'),
-      description: t('panel.options.aggregation.description', 'How to aggregate multiple data points on the same day'),
+      description: t(
+        'panel.options.aggregation.description',
+        'How to aggregate multiple data points in the same day, week or month'
+      ),
       defaultValue: 'sum',
       category: ['Data'],
       settings: {
@@ -123,12 +445,156 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
           { value: 'avg', label: t('panel.options.aggregation.options.avg', 'Average') },
           { value: 'max', label: t('panel.options.aggregation.options.max', 'Maximum') },
           { value: 'min', label: t('panel.options.aggregation.options.min', 'Minimum') },
+          { value: 'median', label: t('panel.options.aggregation.options.median', 'Median') },
+          { value: 'p90', label: t('panel.options.aggregation.options.p90', '90th percentile') },
+          { value: 'p95', label: t('panel.options.aggregation.options.p95', '95th percentile') },
+          { value: 'p99', label: t('panel.options.aggregation.options.p99', '99th percentile') },
+          { value: 'first', label: t('panel.options.aggregation.options.first', 'First') },
+          { value: 'last', label: t('panel.options.aggregation.options.last', 'Last') },
+          { value: 'range', label: t('panel.options.aggregation.options.range', 'Range (max − min)') },
+          { value: 'stddev', label: t('panel.options.aggregation.options.stddev', 'Standard deviation') },
+          { value: 'distinct', label: t('panel.options.aggregation.options.distinct', 'Distinct count') },
+          { value: 'delta', label: t('panel.options.aggregation.options.delta', 'Delta (last − first)') },
         ],
       },
     })
 
-    // NEW: bucket mode
+    .addTextInput({
+      path: 'valueField',
+      name: t('panel.options.valueField.name', 'Value field'),
+      description: t(
+        'panel.options.valueField.description',
+        'Field name or /regex/ to read values from. Leave empty to use the first numeric field'
+      ),
+      defaultValue: '',
+      category: ['Data'],
+    })
+    .addSelect({
+      path: 'combineFields',
+      name: t('panel.options.combineFields.name', 'Combine fields'),
+      description: t(
+        'panel.options.combineFields.description',
+        'How to reduce several matching numeric fields into one value per row'
+      ),
+      defaultValue: 'first',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'first', label: t('panel.options.combineFields.options.first', 'First match only') },
+          { value: 'sum', label: t('panel.options.combineFields.options.sum', 'Sum') },
+          { value: 'avg', label: t('panel.options.combineFields.options.avg', 'Average') },
+          { value: 'max', label: t('panel.options.combineFields.options.max', 'Maximum') },
+          { value: 'min', label: t('panel.options.combineFields.options.min', 'Minimum') },
+        ],
+      },
+    })
+
+    .addBooleanSwitch({
+      path: 'showZeros',
+      name: t('panel.options.showZeros.name', 'Show zeros'),
+      description: t(
+        'panel.options.showZeros.description',
+        'Draw days that aggregate to 0 with their own color instead of treating them as missing'
+      ),
+      defaultValue: false,
+      category: ['Data'],
+    })
+    .addColorPicker({
+      path: 'zeroColor',
+      name: t('panel.options.zeroColor.name', 'Zero color'),
+      description: t('panel.options.zeroColor.description', 'Color of days whose value is 0'),
+      defaultValue: '#8e8e8e',
+      category: ['Data'],
+      showIf: (options) => options.showZeros,
+    })
+
+    // Small multiples
+    .addRadio({
+      path: 'splitBy',
+      name: t('panel.options.splitBy.name', 'Split by'),
+      description: t('panel.options.splitBy.description', 'Render one calendar row per series or per label value'),
+      defaultValue: 'none',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'none', label: t('panel.options.splitBy.options.none', 'None') },
+          { value: 'series', label: t('panel.options.splitBy.options.series', 'Series') },
+          { value: 'label', label: t('panel.options.splitBy.options.label', 'Label') },
+        ],
+      },
+    })
+    .addTextInput({
+      path: 'splitLabel',
+      name: t('panel.options.splitLabel.name', 'Split label'),
+      description: t('panel.options.splitLabel.description', 'Label key whose values become rows, e.g. host'),
+      defaultValue: '',
+      category: ['Data'],
+      showIf: (options) => options.splitBy === 'label',
+    })
     .addRadio({
+      path: 'splitSort',
+      name: t('panel.options.splitSort.name', 'Sort rows'),
+      description: t('panel.options.splitSort.description', 'Order of the calendar rows'),
+      defaultValue: 'none',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'none', label: t('panel.options.splitSort.options.none', 'Query order') },
+          { value: 'total', label: t('panel.options.splitSort.options.total', 'Total') },
+          { value: 'name', label: t('panel.options.splitSort.options.name', 'Name') },
+        ],
+      },
+      showIf: (options) => options.splitBy !== 'none',
+    })
+
+    // Period-over-period comparison
+    .addSelect({
+      path: 'compareTo',
+      name: t('panel.options.compareTo.name', 'Compare with'),
+      description: t(
+        'panel.options.compareTo.description',
+        'Color each day by its change against a reference. Earlier days must be part of the queried data'
+      ),
+      defaultValue: 'none',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'none', label: t('panel.options.compareTo.options.none', 'Nothing') },
+          { value: 'weekAgo', label: t('panel.options.compareTo.options.weekAgo', 'Same weekday a week earlier') },
+          { value: 'yearAgo', label: t('panel.options.compareTo.options.yearAgo', 'Same date a year earlier') },
+          { value: 'query', label: t('panel.options.compareTo.options.query', 'Another query') },
+        ],
+      },
+      showIf: (options) => options.displayMode !== 'punchCard' && (options.granularity ?? 'day') === 'day',
+    })
+    .addTextInput({
+      path: 'compareRefId',
+      name: t('panel.options.compareRefId.name', 'Reference query'),
+      description: t(
+        'panel.options.compareRefId.description',
+        'refId of the query holding the reference values; it is not drawn itself'
+      ),
+      defaultValue: 'B',
+      category: ['Data'],
+      showIf: (options) => isComparing(options) && options.compareTo === 'query',
+    })
+    .addRadio({
+      path: 'compareMetric',
+      name: t('panel.options.compareMetric.name', 'Change'),
+      description: t('panel.options.compareMetric.description', 'Absolute difference or percent change'),
+      defaultValue: 'delta',
+      category: ['Data'],
+      settings: {
+        options: [
+          { value: 'delta', label: t('panel.options.compareMetric.options.delta', 'Delta') },
+          { value: 'percent', label: t('panel.options.compareMetric.options.percent', 'Percent') },
+        ],
+      },
+      showIf: isComparing,
+    })
+
+    // NEW: bucket mode
+    .addSelect({
       path: 'bucketMode',
       name: t('panel.options.bucketMode.name', 'Bucket Mode'),
       description: t('panel.options.bucketMode.description', 'How to map values into color levels'),
@@ -137,6 +603,10 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       settings: {
         options: [
           { value: 'auto', label: t('panel.options.bucketMode.options.auto', 'Auto') },
+          { value: 'quantile', label: t('panel.options.bucketMode.options.quantile', 'Quantiles') },
+          { value: 'jenks', label: t('panel.options.bucketMode.options.jenks', 'Natural breaks (Jenks)') },
+          { value: 'equal', label: t('panel.options.bucketMode.options.equal', 'Equal width') },
+          { value: 'log', label: t('panel.options.bucketMode.options.log', 'Logarithmic') },
           { value: 'custom', label: t('panel.options.bucketMode.options.custom', 'Custom') },
         ],
       },
@@ -146,24 +616,33 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       name: t('panel.options.customBuckets.name', 'Custom buckets'),
       description: t(
         'panel.options.customBuckets.description',
-        'Four increasing numbers including 0, e.g. 0,1,2,9'
+        'One increasing number per color level, starting at 0, e.g. 0,1,2,9 for four levels'
       ),
       defaultValue: '0,1,2,9',
       category: ['Data'],
       showIf: (options) => options.bucketMode === 'custom',
     })
 
-    // Start day of week setting (use radio to avoid select-focus issues)
-    .addRadio({
+    // Start day of week setting
+    .addSelect({
       path: 'weekStart',
       name: t('panel.options.weekStart.name', 'Week starts on'),
-      description: t('panel.options.weekStart.description', 'Choose whether the week starts on Sunday or Monday'),
-      defaultValue: 'sunday',
+      description: t(
+        'panel.options.weekStart.description',
+        'First day of the week; Default follows the week start of your Grafana preferences'
+      ),
+      defaultValue: 'grafana',
       category: ['Layout'],
       settings: {
         options: [
+          { value: 'grafana', label: t('panel.options.weekStart.options.grafana', 'Default') },
           { value: 'sunday', label: t('panel.options.weekStart.options.sunday', 'Sunday') },
           { value: 'monday', label: t('panel.options.weekStart.options.monday', 'Monday') },
+          { value: 'tuesday', label: t('panel.options.weekStart.options.tuesday', 'Tuesday') },
+          { value: 'wednesday', label: t('panel.options.weekStart.options.wednesday', 'Wednesday') },
+          { value: 'thursday', label: t('panel.options.weekStart.options.thursday', 'Thursday') },
+          { value: 'friday', label: t('panel.options.weekStart.options.friday', 'Friday') },
+          { value: 'saturday', label: t('panel.options.weekStart.options.saturday', 'Saturday') },
         ],
       },
     })
@@ -223,6 +702,48 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       showIf: (o) => o.weekLabelMode === 'custom',
     })
 
+    // Week numbers (horizontal day calendar)
+    .addRadio({
+      path: 'weekNumbers',
+      name: t('panel.options.weekNumbers.name', 'Week numbers'),
+      description: t(
+        'panel.options.weekNumbers.description',
+        'Number the week columns: ISO 8601 weeks, or weeks counted from the one holding January 1'
+      ),
+      defaultValue: 'none',
+      category: ['Labels'],
+      settings: {
+        options: [
+          { value: 'none', label: t('panel.options.weekNumbers.options.none', 'None') },
+          { value: 'iso', label: t('panel.options.weekNumbers.options.iso', 'ISO') },
+          { value: 'locale', label: t('panel.options.weekNumbers.options.locale', 'Locale') },
+        ],
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        options.layout !== 'months' &&
+        !((options.layout ?? 'continuous') === 'continuous' && options.orientation === 'vertical'),
+    })
+    .addRadio({
+      path: 'weekNumberPosition',
+      name: t('panel.options.weekNumberPosition.name', 'Week number position'),
+      defaultValue: 'bottom',
+      category: ['Labels'],
+      settings: {
+        options: [
+          { value: 'top', label: t('panel.options.weekNumberPosition.options.top', 'Top') },
+          { value: 'bottom', label: t('panel.options.weekNumberPosition.options.bottom', 'Bottom') },
+        ],
+      },
+      showIf: (options) =>
+        options.displayMode !== 'punchCard' &&
+        (options.granularity ?? 'day') === 'day' &&
+        options.layout !== 'months' &&
+        !((options.layout ?? 'continuous') === 'continuous' && options.orientation === 'vertical') &&
+        (options.weekNumbers ?? 'none') !== 'none',
+    })
+
     // Interaction
     .addBooleanSwitch({
       path: 'showTooltip',
@@ -230,6 +751,220 @@ export const plugin = new PanelPlugin<CalendarHeatmapOptions>(CalendarHeatmapPan
       description: t('panel.options.showTooltip.description', 'Show tooltip on hover'),
       defaultValue: true,
       category: ['Interaction'],
+    })
+    .addTextInput({
+      path: 'tooltipTemplate',
+      name: t('panel.options.tooltipTemplate.name', 'Tooltip template'),
+      description: t(
+        'panel.options.tooltipTemplate.description',
+        'Replaces the date, value and sample lines. Variables: ${date}, ${value}, ${samples}, ${min}, ${max}, ${avg} (formatted with the unit), ${key}, ${rawValue}, ${rawMin}, ${rawMax}, ${rawAvg}, plus dashboard variables. Empty for the default'
+      ),
+      defaultValue: '',
+      category: ['Interaction'],
+      settings: {
+        useTextarea: true,
+        rows: 3,
+        placeholder: '${date}: ${value} (${samples} samples)',
+      },
+      showIf: (options) => options.showTooltip,
+    })
+    .addBooleanSwitch({
+      path: 'clickToZoom',
+      name: t('panel.options.clickToZoom.name', 'Click to zoom'),
+      description: t(
+        'panel.options.clickToZoom.description',
+        'Click a day to zoom the dashboard time range to it. Shift-click two days to zoom to the span between them'
+      ),
+      defaultValue: false,
+      category: ['Interaction'],
+      showIf: (options) => options.displayMode !== 'punchCard',
+    })
+
+    // Holidays
+    .addTextInput({
+      path: 'holidays',
+      name: t('panel.options.holidays.name', 'Holidays'),
+      description: t(
+        'panel.options.holidays.description',
+        'One ISO date per line, optionally followed by a name (2024-12-25 Christmas), or an iCalendar (.ics) body'
+      ),
+      defaultValue: '',
+      category: ['Holidays'],
+      settings: {
+        useTextarea: true,
+        rows: 5,
+      },
+    })
+    .addBooleanSwitch({
+      path: 'markWeekends',
+      name: t('panel.options.markWeekends.name', 'Mark weekends'),
+      description: t('panel.options.markWeekends.description', 'Treat Saturdays and Sundays as non-working days'),
+      defaultValue: false,
+      category: ['Holidays'],
+    })
+    .addRadio({
+      path: 'holidayStyle',
+      name: t('panel.options.holidayStyle.name', 'Style'),
+      description: t('panel.options.holidayStyle.description', 'How non-working days are marked'),
+      defaultValue: 'hatch',
+      category: ['Holidays'],
+      settings: {
+        options: [
+          { value: 'hatch', label: t('panel.options.holidayStyle.options.hatch', 'Hatching') },
+          { value: 'outline', label: t('panel.options.holidayStyle.options.outline', 'Outline') },
+        ],
+      },
+    })
+    .addBooleanSwitch({
+      path: 'excludeHolidaysFromScale',
+      name: t('panel.options.excludeHolidaysFromScale.name', 'Exclude from scale'),
+      description: t(
+        'panel.options.excludeHolidaysFromScale.description',
+        'Leave non-working days out of the color scale and automatic bucketing'
+      ),
+      defaultValue: false,
+      category: ['Holidays'],
+    })
+
+    // Anomalies
+    .addBooleanSwitch({
+      path: 'showAnomalies',
+      name: t('panel.options.showAnomalies.name', 'Highlight anomalies'),
+      description: t(
+        'panel.options.showAnomalies.description',
+        'Outline cells that are far from a rolling baseline of the preceding cells'
+      ),
+      defaultValue: false,
+      category: ['Anomalies'],
+    })
+    .addRadio({
+      path: 'anomalyMethod',
+      name: t('panel.options.anomalyMethod.name', 'Baseline'),
+      description: t(
+        'panel.options.anomalyMethod.description',
+        'Mean and standard deviation, or the more outlier-resistant median and MAD'
+      ),
+      defaultValue: 'meanStd',
+      category: ['Anomalies'],
+      settings: {
+        options: [
+          { value: 'meanStd', label: t('panel.options.anomalyMethod.options.meanStd', 'Mean / std dev') },
+          { value: 'medianMad', label: t('panel.options.anomalyMethod.options.medianMad', 'Median / MAD') },
+        ],
+      },
+      showIf: (options) => options.showAnomalies,
+    })
+    .addSliderInput({
+      path: 'anomalyWindow',
+      name: t('panel.options.anomalyWindow.name', 'Window'),
+      description: t(
+        'panel.options.anomalyWindow.description',
+        'Number of preceding cells in the baseline. Only cells with data count, unless Show zeros is on: then empty cells count as 0'
+      ),
+      defaultValue: 28,
+      category: ['Anomalies'],
+      settings: {
+        min: 3,
+        max: 120,
+        step: 1,
+      },
+      showIf: (options) => options.showAnomalies,
+    })
+    .addNumberInput({
+      path: 'anomalyThreshold',
+      name: t('panel.options.anomalyThreshold.name', 'Z-score threshold'),
+      description: t(
+        'panel.options.anomalyThreshold.description',
+        'Cells at least this many standard deviations from the baseline are flagged'
+      ),
+      defaultValue: 3,
+      category: ['Anomalies'],
+      settings: {
+        min: 0,
+        step: 0.5,
+      },
+      showIf: (options) => options.showAnomalies,
+    })
+    .addColorPicker({
+      path: 'anomalyColor',
+      name: t('panel.options.anomalyColor.name', 'Outline color'),
+      description: t('panel.options.anomalyColor.description', 'Color of the anomaly outline'),
+      defaultValue: 'orange',
+      category: ['Anomalies'],
+      showIf: (options) => options.showAnomalies,
+    })
+
+    // Annotations
+    .addBooleanSwitch({
+      path: 'showAnnotations',
+      name: t('panel.options.showAnnotations.name', 'Show annotations'),
+      description: t(
+        'panel.options.showAnnotations.description',
+        'Mark days that have dashboard annotations and list them in the tooltip'
+      ),
+      defaultValue: false,
+      category: ['Annotations'],
+    })
+    .addRadio({
+      path: 'annotationMarker',
+      name: t('panel.options.annotationMarker.name', 'Marker'),
+      description: t('panel.options.annotationMarker.description', 'How annotated days are marked'),
+      defaultValue: 'dot',
+      category: ['Annotations'],
+      settings: {
+        options: [
+          { value: 'dot', label: t('panel.options.annotationMarker.options.dot', 'Corner dot') },
+          { value: 'outline', label: t('panel.options.annotationMarker.options.outline', 'Outline') },
+          { value: 'badge', label: t('panel.options.annotationMarker.options.badge', 'Count badge') },
+        ],
+      },
+      showIf: (options) => options.showAnnotations,
+    })
+    .addColorPicker({
+      path: 'annotationColor',
+      name: t('panel.options.annotationColor.name', 'Marker color'),
+      description: t(
+        'panel.options.annotationColor.description',
+        'Used for annotations without a color of their own'
+      ),
+      defaultValue: 'blue',
+      category: ['Annotations'],
+      showIf: (options) => options.showAnnotations,
+    })
+    .addTextInput({
+      path: 'annotationTags',
+      name: t('panel.options.annotationTags.name', 'Filter by tags'),
+      description: t(
+        'panel.options.annotationTags.description',
+        'Comma-separated tags; only annotations with any of them are shown. Empty shows all'
+      ),
+      defaultValue: '',
+      category: ['Annotations'],
+      showIf: (options) => options.showAnnotations,
     });
-}).setNoPadding();
+})
+  // Standard options: unit, decimals, min, max, display name, no value and the continuous color scheme
+  .useFieldConfig({
+    standardOptions: {
+      [FieldConfigProperty.Color]: {
+        settings: {
+          byValueSupport: true,
+          bySeriesSupport: false,
+          preferThresholdsMode: false,
+        },
+        defaultValue: {
+          mode: FieldColorModeId.ContinuousGrYlRd,
+        },
+      },
+    },
+    disableStandardOptions: [
+      FieldConfigProperty.FieldMinMax,
+      FieldConfigProperty.Thresholds,
+      FieldConfigProperty.Mappings,
+      FieldConfigProperty.Links,
+      FieldConfigProperty.Actions,
+      FieldConfigProperty.Filterable,
+    ],
+  })
+  .setNoPadding();
 
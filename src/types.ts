@@ -3,22 +3,65 @@ export interface CalendarHeatmapOptions {
   colorScheme: 'green' | 'blue' | 'red' | 'yellow' | 'purple' | 'orange' | 'custom';
   emptyColor: string;
 
+  /**
+   * discrete: levelCount shades picked by bucketMode
+   * continuous: each cell interpolated over the field color scheme (or the color scheme above),
+   *   domain taken from the standard Min/Max options or the data range
+   * diverging: negativeScheme below divergingMidpoint, positiveScheme above it, a neutral gray at it
+   */
+  colorMode: 'discrete' | 'continuous' | 'diverging';
+
+  // Diverging mode (signed values such as P&L or net change)
+  divergingMidpoint: number;
+  negativeScheme: 'green' | 'blue' | 'red' | 'yellow' | 'purple' | 'orange';
+  positiveScheme: 'green' | 'blue' | 'red' | 'yellow' | 'purple' | 'orange';
+  divergingSymmetric: boolean;
+
   // NEW: custom base color string (hex / rgb / rgba)
   customColor: string;
 
+  // Number of colored levels (2..10), shades generated from the scheme / custom color
+  levelCount: number;
+
   // Layout
   autoRectSize: boolean;
   rectSize: number;
   space: number;
   radius: number;
+  /**
+   * continuous: one strip over the whole range
+   * yearly: one row per year, stacked and scrolled vertically
+   * months: wall-calendar pages, one grid per month with day-of-month numbers
+   */
+  layout: 'continuous' | 'yearly' | 'months';
+  /** First month (1-12) of each yearly row, fiscal year and quarter; anything but 1 gives fiscal years */
+  yearStartMonth: number;
+  /** Widen the rendered days to whole periods around the time range (day granularity only) */
+  alignRange: 'none' | 'calendarYear' | 'fiscalYear' | 'quarter' | 'weeks';
+  /** Number of whole weeks in 'weeks' alignment */
+  alignWeeks: number;
+  /** Style of the empty days alignment adds after the end of the time range */
+  futureDays: 'show' | 'faded' | 'hidden';
+  /** vertical: weeks as rows and weekdays as columns, for narrow panels (continuous day calendar only) */
+  orientation: 'horizontal' | 'vertical';
 
   // Labels
   showWeekLabels: boolean;
   showMonthLabels: boolean;
   showLegend: boolean;
+  showLegendEdges: boolean;
+
+  /** Stats bar above or below the calendar; streaks and busiest weekday need day granularity */
+  showStats: boolean;
+  statsPosition: 'top' | 'bottom';
+  stats: Array<'total' | 'average' | 'activeDays' | 'currentStreak' | 'longestStreak' | 'busiestDay' | 'busiestWeekday'>;
+
+  // Week start; 'grafana' follows the user / org preference
+  weekStart: 'grafana' | 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
 
-  // Week start
-  weekStart: 'sunday' | 'monday';
+  /** Week numbers over or under the columns of the horizontal day calendar; locale weeks count from the one holding Jan 1 */
+  weekNumbers: 'none' | 'iso' | 'locale';
+  weekNumberPosition: 'top' | 'bottom';
 
   /**
    * Label display modes:
@@ -33,22 +76,114 @@ export interface CalendarHeatmapOptions {
   weekLabelCustom: string; // comma-separated 7 labels
 
   // Data
-  aggregation: 'sum' | 'count' | 'avg' | 'max' | 'min';
+  /** calendar: one cell per day / week / month; punchCard: weekday × hour-of-day matrix */
+  displayMode: 'calendar' | 'punchCard';
+
+  /** Bucket size: day (calendar), ISO week (year × week grid) or month (year × month grid) */
+  granularity: 'day' | 'week' | 'month';
+
+  /** "HH:MM" a day starts at (shift-based days); points before it count towards the day before */
+  dayStart: string;
+
+  /** Keep days that aggregate to 0 and draw them with zeroColor instead of as missing */
+  showZeros: boolean;
+  zeroColor: string;
+
+  aggregation:
+    | 'sum'
+    | 'count'
+    | 'avg'
+    | 'max'
+    | 'min'
+    | 'median'
+    | 'p90'
+    | 'p95'
+    | 'p99'
+    | 'first'
+    | 'last'
+    | 'range'
+    | 'stddev'
+    | 'distinct'
+    | 'delta';
+
+  /**
+   * Value field selection:
+   * - valueField: field name or /regex/ (empty = first numeric field)
+   * - combineFields: how several matching fields are reduced per row
+   */
+  valueField: string;
+  combineFields: 'first' | 'sum' | 'avg' | 'max' | 'min';
+
+  /**
+   * Small multiples: one calendar row per series or per label value.
+   * Rows share the color scale; splitSort orders them.
+   */
+  splitBy: 'none' | 'series' | 'label';
+  splitLabel: string;
+  splitSort: 'none' | 'total' | 'name';
+
+  /**
+   * Period-over-period comparison (day granularity): color each day by its change against the
+   * same weekday a week earlier, the same date a year earlier, or the same day of query compareRefId.
+   * Uses negativeScheme / positiveScheme around "no change".
+   */
+  compareTo: 'none' | 'weekAgo' | 'yearAgo' | 'query';
+  compareRefId: string;
+  compareMetric: 'delta' | 'percent';
+
+  // Holidays / non-working days (day granularity)
+  /** ISO date lines ("2024-12-25 Christmas") or an iCalendar (.ics) body */
+  holidays: string;
+  markWeekends: boolean;
+  holidayStyle: 'outline' | 'hatch';
+  /** Leave holidays (and marked weekends) out of the color scale and bucketing */
+  excludeHolidaysFromScale: boolean;
+
+  // Anomalies: outline cells far from a rolling baseline of the preceding cells
+  showAnomalies: boolean;
+  anomalyMethod: 'meanStd' | 'medianMad';
+  /** Number of preceding cells with data in the baseline */
+  anomalyWindow: number;
+  /** z-score at or above which a cell is flagged */
+  anomalyThreshold: number;
+  anomalyColor: string;
+
+  // Annotations
+  /** Mark cells that have dashboard annotations; the tooltip lists their titles and tags */
+  showAnnotations: boolean;
+  annotationMarker: 'dot' | 'outline' | 'badge';
+  /** Marker color for annotations without a color of their own */
+  annotationColor: string;
+  /** Comma-separated tags; only annotations with any of them are shown (empty = all) */
+  annotationTags: string;
 
   // Interaction
   showTooltip: boolean;
+  /**
+   * Tooltip text; empty for the default. ${date}, ${value}, ${min}, ${max} and ${avg} are formatted (weekday, unit),
+   * ${key}, ${rawValue}, ${rawMin}, ${rawMax} and ${rawAvg} are raw; ${samples} and dashboard variables work too
+   */
+  tooltipTemplate: string;
+  /** Click a day to zoom the dashboard to it; shift-click two days to zoom to the span */
+  clickToZoom: boolean;
 
 
   // -----------------------
   // NEW: Bucketing / Levels
   // -----------------------
 
-  bucketMode: 'auto' | 'custom';
+  /**
+   * - auto: equal fractions of the max value, from the field Min (else 0)
+   * - quantile / jenks: computed from the distribution of non-empty days
+   * - equal / log: equal-width or logarithmic steps between min and max
+   * - custom: customBuckets
+   */
+  bucketMode: 'auto' | 'quantile' | 'jenks' | 'equal' | 'log' | 'custom';
 
   /**
    * Custom bucket edges for bucketMode=custom.
-   * Must be 4 numbers, strictly increasing, and include 0.
-   * Example: "0,1,2,9"
+   * Must be levelCount numbers, strictly increasing, and start at 0.
+   * Example (4 levels): "0,1,2,9"
    */
   customBuckets: string;
 }
@@ -59,4 +194,4 @@ export interface CalendarHeatmapOptions {
 export interface HeatmapValue {
   date: string;
   count: number;
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { FieldType, toDataFrame } from '@grafana/data';
+
+import { groupAnnotations } from './annotations';
+import { formatPeriodKey, shiftPeriodKey } from './periods';
+
+const keyOf = (time: number) => formatPeriodKey(time, 'day', 'utc');
+const nextKey = (key: string) => shiftPeriodKey(key, 'day', 1, 'day');
+
+/** One frame of [title, time, timeEnd, tags] rows */
+function annotations(rows: Array<[string, number, number?, string[]?]>) {
+  return [
+    toDataFrame({
+      fields: [
+        { name: 'title', type: FieldType.string, values: rows.map((r) => r[0]) },
+        { name: 'time', type: FieldType.time, values: rows.map((r) => r[1]) },
+        { name: 'timeEnd', type: FieldType.time, values: rows.map((r) => r[2] ?? r[1]) },
+        { name: 'tags', type: FieldType.other, values: rows.map((r) => r[3] ?? []) },
+      ],
+    }),
+  ];
+}
+
+describe('groupAnnotations', () => {
+  const march8 = Date.UTC(2024, 2, 8, 10);
+
+  it('keeps annotations with any of the wanted tags, ignoring case', () => {
+    const frames = annotations([
+      ['Deploy', march8, undefined, ['Deploy', 'api']],
+      ['Outage', march8, undefined, ['incident']],
+      ['Note', march8],
+    ]);
+
+    const titles = groupAnnotations(frames, keyOf, ' deploy, INCIDENT ')
+      .get('2024/03/08')
+      ?.map((a) => a.title);
+    expect(titles).toEqual(['Deploy', 'Outage']);
+    expect(groupAnnotations(frames, keyOf, 'release').size).toBe(0);
+    expect(groupAnnotations(frames, keyOf).get('2024/03/08')).toHaveLength(3);
+  });
+
+  it('marks every day a region covers', () => {
+    const end = Date.UTC(2024, 2, 11, 2);
+    const byKey = groupAnnotations(annotations([['Freeze', march8, end]]), keyOf, '', nextKey);
+
+    expect([...byKey.keys()]).toEqual(['2024/03/08', '2024/03/09', '2024/03/10', '2024/03/11']);
+    expect(byKey.get('2024/03/10')?.[0].title).toBe('Freeze');
+    expect(byKey.get('2024/03/10')?.[0].timeEnd).toBe(end);
+  });
+
+  it('marks only the start day of a point, or of a region without a next key', () => {
+    const frames = annotations([
+      ['Point', march8],
+      ['Region', Date.UTC(2024, 2, 20), Date.UTC(2024, 2, 22)],
+    ]);
+
+    expect([...groupAnnotations(frames, keyOf, '', nextKey).keys()]).toEqual([
+      '2024/03/08',
+      '2024/03/20',
+      '2024/03/21',
+      '2024/03/22',
+    ]);
+    expect([...groupAnnotations(frames, keyOf).keys()]).toEqual(['2024/03/08', '2024/03/20']);
+  });
+});
@@ -0,0 +1,120 @@
+import { DataFrame, Field, FieldType } from '@grafana/data';
+
+// --------------------
+// Dashboard annotations per cell
+// --------------------
+
+export interface CellAnnotation {
+  time: number;
+  /** End of a region annotation; equal to time for a point */
+  timeEnd: number;
+  title: string;
+  tags: string[];
+  /** Annotation color as stored by Grafana (name or css color); empty when unset */
+  color: string;
+}
+
+function fieldByName(frame: DataFrame, name: string): Field | undefined {
+  return frame.fields.find((f) => f.name === name);
+}
+
+function parseTags(input: string): string[] {
+  return input
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+}
+
+/** Annotation text may be HTML; tooltips show plain text */
+function plainText(input: unknown): string {
+  return String(input ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Keys of the cells a region covers, from its start cell through its end cell; a point covers one cell */
+function coveredKeys(
+  annotation: CellAnnotation,
+  keyOf: (time: number) => string,
+  nextKey?: (key: string) => string
+): string[] {
+  const keys = [keyOf(annotation.time)];
+  if (!nextKey || annotation.timeEnd <= annotation.time) {
+    return keys;
+  }
+
+  // Hour-of-week keys wrap around, so a region longer than the grid stops at the first repeated cell
+  const endKey = keyOf(annotation.timeEnd);
+  const seen = new Set(keys);
+  let key = keys[0];
+  while (key !== endKey) {
+    key = nextKey(key);
+    if (seen.has(key)) {
+      break;
+    }
+    seen.add(key);
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Group annotations by cell key. A region is listed under every cell from its start through its end
+ * when nextKey (the key of the following cell) is given, otherwise only under its start.
+ * tagFilter: comma-separated tags, matched case-insensitively; an annotation is kept
+ * when it has any of them. Empty keeps every annotation.
+ */
+export function groupAnnotations(
+  frames: DataFrame[] | undefined,
+  keyOf: (time: number) => string,
+  tagFilter = '',
+  nextKey?: (key: string) => string
+): Map<string, CellAnnotation[]> {
+  const wanted = parseTags(tagFilter);
+  const byKey = new Map<string, CellAnnotation[]>();
+
+  for (const frame of frames ?? []) {
+    const timeField = fieldByName(frame, 'time') ?? frame.fields.find((f) => f.type === FieldType.time);
+    if (!timeField) {
+      continue;
+    }
+    const titleField = fieldByName(frame, 'title');
+    const textField = fieldByName(frame, 'text');
+    const tagsField = fieldByName(frame, 'tags');
+    const colorField = fieldByName(frame, 'color');
+    const timeEndField = fieldByName(frame, 'timeEnd');
+
+    for (let i = 0; i < frame.length; i++) {
+      const time = Number(timeField.values[i]);
+      if (!Number.isFinite(time)) {
+        continue;
+      }
+
+      const rawTags = tagsField?.values[i];
+      const tags: string[] = Array.isArray(rawTags) ? rawTags.map(String) : [];
+      if (wanted.length > 0 && !tags.some((tag) => wanted.includes(tag.toLowerCase()))) {
+        continue;
+      }
+
+      const timeEnd = Number(timeEndField?.values[i]);
+      const annotation: CellAnnotation = {
+        time,
+        timeEnd: Number.isFinite(timeEnd) && timeEnd > time ? timeEnd : time,
+        title: plainText(titleField?.values[i]) || plainText(textField?.values[i]),
+        tags,
+        color: String(colorField?.values[i] ?? ''),
+      };
+
+      for (const key of coveredKeys(annotation, keyOf, nextKey)) {
+        if (!byKey.has(key)) {
+          byKey.set(key, []);
+        }
+        byKey.get(key)!.push(annotation);
+      }
+    }
+  }
+
+  byKey.forEach((list) => list.sort((a, b) => a.time - b.time));
+  return byKey;
+}
@@ -0,0 +1,55 @@
+import { detectAnomalies } from './anomalies';
+import { shiftPeriodKey } from './periods';
+
+const days = (counts: number[], firstDay = 1) =>
+  counts.map((count, i) => ({ date: `2024/03/${String(firstDay + i).padStart(2, '0')}`, count }));
+
+describe('detectAnomalies', () => {
+  it('needs a few preceding cells before giving a baseline', () => {
+    const baselines = detectAnomalies(days([10, 10, 10, 10]));
+    expect([...baselines.keys()]).toEqual(['2024/03/04']);
+  });
+
+  it('scores cells against the mean and standard deviation of the window', () => {
+    const baselines = detectAnomalies(days([8, 12, 8, 12, 10, 30]), { window: 4, threshold: 3 });
+
+    // Window of 30: 12, 8, 12, 10 → mean 10.5, population standard deviation ~1.66
+    const spike = baselines.get('2024/03/06')!;
+    expect(spike.center).toBe(10.5);
+    expect(spike.spread).toBeCloseTo(Math.sqrt(2.75));
+    expect(spike.score).toBeCloseTo(19.5 / Math.sqrt(2.75));
+    expect(spike.anomalous).toBe(true);
+    expect(baselines.get('2024/03/05')!.anomalous).toBe(false);
+  });
+
+  it('scores cells against the median and the scaled MAD of the window', () => {
+    const baselines = detectAnomalies(days([10, 12, 9, 100, 11, 30]), { method: 'medianMad', window: 5 });
+
+    // Window of 30: 10, 12, 9, 100, 11 → median 11, MAD 1; the outlier in the window barely moves either
+    const spike = baselines.get('2024/03/06')!;
+    expect(spike.center).toBe(11);
+    expect(spike.spread).toBeCloseTo(1.4826);
+    expect(spike.lower).toBeCloseTo(11 - 3 * 1.4826);
+    expect(spike.anomalous).toBe(true);
+  });
+
+  it('flags any change from a window without spread (MAD of 0)', () => {
+    const baselines = detectAnomalies(days([5, 5, 5, 5, 5, 6]), { method: 'medianMad' });
+
+    expect(baselines.get('2024/03/05')).toMatchObject({ spread: 0, score: 0, anomalous: false });
+    expect(baselines.get('2024/03/06')).toMatchObject({ spread: 0, score: Infinity, anomalous: true });
+  });
+
+  it('counts missing cells as 0 when given the next key', () => {
+    const values = [...days([10, 10, 10]), ...days([10], 10)];
+    const nextKey = (key: string) => shiftPeriodKey(key, 'day', 1, 'day');
+
+    // Only cells with data: 10 after three 10s
+    expect(detectAnomalies(values).get('2024/03/10')?.anomalous).toBe(false);
+
+    // Days 4 to 9 count as 0, so 10 stands out; the filled days get no baseline themselves
+    const filled = detectAnomalies(values, { window: 6, nextKey });
+    expect(filled.get('2024/03/10')).toMatchObject({ center: 0, anomalous: true });
+    expect(filled.has('2024/03/05')).toBe(false);
+  });
+});
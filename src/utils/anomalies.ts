@@ -0,0 +1,120 @@
+import { HeatmapValue } from '../types';
+import { quantileSorted } from './bucketing';
+
+// --------------------
+// Anomalies against a rolling baseline
+// --------------------
+
+export type AnomalyMethod = 'meanStd' | 'medianMad';
+
+export interface AnomalyOptions {
+  method?: AnomalyMethod;
+  /** Number of preceding cells the baseline is computed from */
+  window?: number;
+  /** |z| at or above which a cell is flagged */
+  threshold?: number;
+  /**
+   * Key of the cell after a key. When set, cells without data between two cells with data count as 0
+   * in the baseline; otherwise the window only holds cells with data.
+   */
+  nextKey?: (key: string) => string;
+}
+
+export interface Baseline {
+  /** Rolling mean or median */
+  center: number;
+  /** Rolling standard deviation, or the MAD scaled to be comparable to it */
+  spread: number;
+  /** Expected range: center ± threshold × spread */
+  lower: number;
+  upper: number;
+  /** z-score of the cell; ±Infinity when the baseline has no spread but the value differs */
+  score: number;
+  anomalous: boolean;
+}
+
+// A baseline needs a few points before it means anything
+const MIN_BASELINE_SAMPLES = 3;
+// MAD × 1.4826 estimates the standard deviation of normally distributed data
+const MAD_SCALE = 1.4826;
+
+function meanStd(values: number[]): { center: number; spread: number } {
+  let sum = 0;
+  for (const v of values) {
+    sum += v;
+  }
+  const mean = sum / values.length;
+
+  let squares = 0;
+  for (const v of values) {
+    squares += (v - mean) * (v - mean);
+  }
+  return { center: mean, spread: Math.sqrt(squares / values.length) };
+}
+
+function medianMad(values: number[]): { center: number; spread: number } {
+  const sorted = [...values].sort((a, b) => a - b);
+  const median = quantileSorted(sorted, 0.5);
+  const deviations = sorted.map((v) => Math.abs(v - median)).sort((a, b) => a - b);
+  return { center: median, spread: quantileSorted(deviations, 0.5) * MAD_SCALE };
+}
+
+/** Cells in key order, with a 0 for every missing cell between two cells with data when nextKey is set */
+function fillGaps(
+  ordered: HeatmapValue[],
+  nextKey?: (key: string) => string
+): Array<HeatmapValue & { filled?: boolean }> {
+  if (!nextKey) {
+    return ordered;
+  }
+  const cells: Array<HeatmapValue & { filled?: boolean }> = [];
+  ordered.forEach((cell, i) => {
+    if (i > 0) {
+      // Keys sort chronologically, so stepping stops at the cell even if a key were skipped
+      for (let key = nextKey(ordered[i - 1].date); key < cell.date; key = nextKey(key)) {
+        cells.push({ date: key, count: 0, filled: true });
+      }
+    }
+    cells.push(cell);
+  });
+  return cells;
+}
+
+/**
+ * Baseline of every cell with data from the `window` cells before it (keys sort chronologically).
+ * Cells with fewer than MIN_BASELINE_SAMPLES predecessors get no baseline.
+ */
+export function detectAnomalies(values: HeatmapValue[], options: AnomalyOptions = {}): Map<string, Baseline> {
+  const { method = 'meanStd' } = options;
+  const window = Math.max(MIN_BASELINE_SAMPLES, Math.round(options.window ?? 28));
+  const threshold = Math.max(0, options.threshold ?? 3);
+
+  const ordered = fillGaps(
+    [...values].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0)),
+    options.nextKey
+  );
+  const baselines = new Map<string, Baseline>();
+
+  for (let i = MIN_BASELINE_SAMPLES; i < ordered.length; i++) {
+    if (ordered[i].filled) {
+      continue;
+    }
+    const history = ordered.slice(Math.max(0, i - window), i).map((d) => d.count);
+    const { center, spread } = method === 'medianMad' ? medianMad(history) : meanStd(history);
+
+    const value = ordered[i].count;
+    const deviation = value - center;
+    const score = spread > 0 ? deviation / spread : deviation === 0 ? 0 : Math.sign(deviation) * Infinity;
+
+    baselines.set(ordered[i].date, {
+      center,
+      spread,
+      lower: center - threshold * spread,
+      upper: center + threshold * spread,
+      score,
+      anomalous: Math.abs(score) >= threshold && deviation !== 0,
+    });
+  }
+
+  return baselines;
+}
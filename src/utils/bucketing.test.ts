@@ -0,0 +1,49 @@
+import { computeBreaks, dedupeBreaks, quantileSorted } from './bucketing';
+
+describe('quantiles', () => {
+  it('interpolates between order statistics', () => {
+    expect(quantileSorted([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantileSorted([1, 2, 3, 4], 1)).toBe(4);
+    expect(quantileSorted([], 0.5)).toBe(0);
+  });
+});
+
+describe('computeBreaks', () => {
+  it('splits equal-width scales between lo and hi', () => {
+    expect(computeBreaks('equal', [], 4, 0, 100)).toEqual([25, 50, 75]);
+  });
+
+  it('splits log scales by orders of magnitude', () => {
+    const breaks = computeBreaks('log', [], 3, 1, 1000);
+    expect(breaks).toHaveLength(2);
+    expect(breaks[0]).toBeCloseTo(10);
+    expect(breaks[1]).toBeCloseTo(100);
+  });
+
+  it('falls back to equal width when a log scale would start at 0', () => {
+    expect(computeBreaks('log', [], 4, 0, 100)).toEqual([25, 50, 75]);
+  });
+
+  it('puts the same number of days in every quantile level', () => {
+    expect(computeBreaks('quantile', [1, 2, 3, 4, 5, 6, 7, 8], 4, 1, 8)).toEqual([2.75, 4.5, 6.25]);
+  });
+
+  it('finds natural breaks between clusters', () => {
+    expect(computeBreaks('jenks', [1, 1, 2, 2, 10, 11, 12, 30, 31], 3, 1, 31)).toEqual([10, 30]);
+  });
+
+  it('collapses on a single distinct value', () => {
+    expect(computeBreaks('jenks', [5, 5, 5], 4, 5, 5)).toEqual([5, 5]);
+    expect(computeBreaks('quantile', [5, 5, 5], 4, 5, 5)).toEqual([5, 5, 5]);
+  });
+});
+
+describe('dedupeBreaks', () => {
+  it('drops repeated breaks instead of nudging them apart', () => {
+    expect(dedupeBreaks([5, 5, 5], 0.01)).toEqual([5]);
+  });
+
+  it('drops breaks at or below the floor and non-finite ones', () => {
+    expect(dedupeBreaks([0.005, 0.01, 1, NaN, 2, 2], 0.01)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,144 @@
+// --------------------
+// Distribution-based bucketing strategies
+// --------------------
+//
+// Every strategy takes the ascending, non-empty daily values and returns the
+// `levelCount - 1` inner breaks: level i+1 starts at breaks[i].
+
+export type BucketStrategy = 'quantile' | 'jenks' | 'equal' | 'log';
+
+// Jenks is O(levels * n^2); larger inputs are reduced to evenly spaced order statistics first
+const JENKS_MAX_SAMPLES = 600;
+
+/** Linear-interpolated quantile (same as numpy's default) of an ascending array. */
+export function quantileSorted(sorted: number[], q: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const pos = (sorted.length - 1) * Math.max(0, Math.min(1, q));
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function quantileBreaks(sorted: number[], levelCount: number): number[] {
+  return Array.from({ length: levelCount - 1 }, (_, i) => quantileSorted(sorted, (i + 1) / levelCount));
+}
+
+function equalWidthBreaks(lo: number, hi: number, levelCount: number): number[] {
+  return Array.from({ length: levelCount - 1 }, (_, i) => lo + ((hi - lo) * (i + 1)) / levelCount);
+}
+
+function logBreaks(lo: number, hi: number, levelCount: number): number[] {
+  if (!(lo > 0) || !(hi > lo)) {
+    return equalWidthBreaks(lo, hi, levelCount);
+  }
+  const logLo = Math.log(lo);
+  const logHi = Math.log(hi);
+  return Array.from({ length: levelCount - 1 }, (_, i) => Math.exp(logLo + ((logHi - logLo) * (i + 1)) / levelCount));
+}
+
+/**
+ * Jenks natural breaks (Fisher's dynamic programming formulation).
+ * Minimizes the within-class sum of squared deviations.
+ */
+function jenksBreaks(sorted: number[], levelCount: number): number[] {
+  const data =
+    sorted.length > JENKS_MAX_SAMPLES
+      ? Array.from({ length: JENKS_MAX_SAMPLES }, (_, i) => quantileSorted(sorted, i / (JENKS_MAX_SAMPLES - 1)))
+      : sorted;
+
+  const n = data.length;
+  const k = Math.min(levelCount, n);
+  if (k < 2) {
+    return [];
+  }
+
+  // lowerClassLimits[l][m]: 1-based index of the first value of class m when the first l values form m classes
+  const lowerClassLimits: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(0));
+  const variance: number[][] = Array.from({ length: n + 1 }, () => new Array(k + 1).fill(Infinity));
+
+  for (let m = 1; m <= k; m++) {
+    lowerClassLimits[1][m] = 1;
+    variance[1][m] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let w = 0;
+    let v = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lowerIdx = l - m + 1;
+      const val = data[lowerIdx - 1];
+
+      w++;
+      sum += val;
+      sumSquares += val * val;
+      v = sumSquares - (sum * sum) / w;
+
+      const i4 = lowerIdx - 1;
+      if (i4 !== 0) {
+        for (let j = 2; j <= k; j++) {
+          if (variance[l][j] >= v + variance[i4][j - 1]) {
+            lowerClassLimits[l][j] = lowerIdx;
+            variance[l][j] = v + variance[i4][j - 1];
+          }
+        }
+      }
+    }
+
+    lowerClassLimits[l][1] = 1;
+    variance[l][1] = v;
+  }
+
+  const breaks: number[] = new Array(k - 1);
+  let idx = n;
+  for (let j = k; j >= 2; j--) {
+    const lower = lowerClassLimits[idx][j];
+    breaks[j - 2] = data[lower - 1];
+    idx = lower - 1;
+  }
+  return breaks;
+}
+
+/**
+ * Inner breaks for a strategy. `lo`/`hi` bound equal-width and log scales
+ * (field Min/Max when set, otherwise the data range).
+ */
+export function computeBreaks(
+  strategy: BucketStrategy,
+  sorted: number[],
+  levelCount: number,
+  lo: number,
+  hi: number
+): number[] {
+  switch (strategy) {
+    case 'quantile':
+      return quantileBreaks(sorted, levelCount);
+    case 'jenks':
+      return jenksBreaks(sorted, levelCount);
+    case 'log':
+      return logBreaks(lo, hi, levelCount);
+    case 'equal':
+    default:
+      return equalWidthBreaks(lo, hi, levelCount);
+  }
+}
+
+/**
+ * Drop breaks that are not above the previous one (or `floor`), e.g. when a strategy collapses
+ * on repeated values. Fewer levels remain, but every one of them covers a real range.
+ */
+export function dedupeBreaks(breaks: number[], floor: number): number[] {
+  const result: number[] = [];
+  let prev = floor;
+  for (const b of breaks) {
+    if (Number.isFinite(b) && b > prev) {
+      result.push(b);
+      prev = b;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,381 @@
+import { createTheme, DataFrame, FieldType, toDataFrame } from '@grafana/data';
+
+import {
+  compareValues,
+  findValueField,
+  getBucketBounds,
+  getComparisonScale,
+  getDivergingScale,
+  getLevelIndex,
+  groupSplitFrames,
+  isZeroValue,
+  processCellDetails,
+  processSplitData,
+  processTimeSeriesData,
+} from './dataProcessor';
+
+function frame(refId: string, labels: Record<string, string>, times: number[], values: number[]) {
+  return toDataFrame({
+    refId,
+    fields: [
+      { name: 'time', type: FieldType.time, values: times },
+      { name: 'value', type: FieldType.number, values, labels },
+    ],
+  });
+}
+
+describe('getBucketBounds', () => {
+  it('keeps fractional auto bounds apart', () => {
+    expect(getBucketBounds(1, { levelCount: 4 })).toEqual([0.01, 0.25, 0.5, 0.75]);
+  });
+
+  it('starts auto bounds at the field Min', () => {
+    expect(getBucketBounds(100, { minCount: 20 })).toEqual([0.01, 40, 60, 80]);
+  });
+
+  it('starts equal-width scales at the smallest value unless Min is set, even to 0', () => {
+    const values = [10, 20, 50];
+    expect(getBucketBounds(50, { bucketMode: 'equal', values })).toEqual([0.01, 20, 30, 40]);
+
+    const fromZero = getBucketBounds(50, { bucketMode: 'equal', values, minCount: 0 });
+    expect(fromZero).toHaveLength(4);
+    expect(fromZero[1]).toBeCloseTo(12.5075);
+    expect(fromZero[3]).toBeCloseTo(37.5025);
+  });
+
+  it('merges levels whose edges collapse', () => {
+    expect(getBucketBounds(5, { bucketMode: 'quantile', values: [5, 5, 5] })).toEqual([0.01, 5]);
+    expect(getBucketBounds(5, { bucketMode: 'jenks', values: [5, 5, 5] })).toEqual([0.01, 5]);
+    expect(getBucketBounds(0, { levelCount: 4 })).toEqual([0.01]);
+  });
+
+  it('uses custom edges, dropping the ones below the first colored value', () => {
+    expect(getBucketBounds(30, { bucketMode: 'custom', customBuckets: '0, 10, 20, 30' })).toEqual([0.01, 10, 20, 30]);
+    expect(getBucketBounds(2, { bucketMode: 'custom', customBuckets: '0,0.005,1,2' })).toEqual([0.01, 1, 2]);
+  });
+
+  it('falls back to auto for invalid custom edges', () => {
+    expect(getBucketBounds(100, { bucketMode: 'custom', customBuckets: '5,10' })).toEqual([0.01, 25, 50, 75]);
+  });
+});
+
+describe('getLevelIndex', () => {
+  it('maps values to the level whose range holds them', () => {
+    const bounds = [0.01, 25, 50, 75];
+    expect(getLevelIndex(bounds, 0.005)).toBe(-1);
+    expect(getLevelIndex(bounds, 0.01)).toBe(0);
+    expect(getLevelIndex(bounds, 25)).toBe(1);
+    expect(getLevelIndex(bounds, 1000)).toBe(3);
+  });
+});
+
+describe('compareValues', () => {
+  const values = [
+    { date: '2024/03/08', count: 15 },
+    { date: '2024/03/09', count: 4 },
+    { date: '2024/03/10', count: 7 },
+  ];
+  const reference = new Map([
+    ['2024/03/08', 10],
+    ['2024/03/09', 0],
+  ]);
+
+  it('subtracts the reference', () => {
+    const compared = compareValues(values, reference, (key) => key, 'delta');
+    expect(compared.get('2024/03/08')).toEqual({ current: 15, reference: 10, change: 5 });
+    expect(compared.get('2024/03/09')).toEqual({ current: 4, reference: 0, change: 4 });
+  });
+
+  it('computes the percent change', () => {
+    expect(compareValues(values, reference, (key) => key, 'percent').get('2024/03/08')?.change).toBe(50);
+  });
+
+  it('has no percent change against a zero base', () => {
+    expect(compareValues(values, reference, (key) => key, 'percent').get('2024/03/09')).toEqual({
+      current: 4,
+      reference: 0,
+      change: undefined,
+    });
+  });
+
+  it('has no change without a reference', () => {
+    expect(compareValues(values, reference, (key) => key, 'delta').get('2024/03/10')).toEqual({
+      current: 7,
+      reference: undefined,
+      change: undefined,
+    });
+  });
+
+  it('looks the reference up through the key mapping', () => {
+    const shifted = compareValues(values, new Map([['2024/03/03', 5]]), () => '2024/03/03', 'delta');
+    expect(shifted.get('2024/03/10')?.change).toBe(2);
+  });
+});
+
+describe('groupSplitFrames', () => {
+  const day = Date.UTC(2024, 2, 8);
+
+  it('groups reference frames under the same label value as the current rows', () => {
+    const reference = [
+      frame('B', { host: 'b' }, [day], [1]),
+      frame('B', { host: 'a' }, [day], [2]),
+      frame('B', { host: 'a' }, [day], [3]),
+    ];
+    const groups = groupSplitFrames(reference, { splitBy: 'label', splitLabel: 'host' });
+    expect([...groups.keys()]).toEqual(['b', 'a']);
+    expect(groups.get('a')).toHaveLength(2);
+    expect(groups.get('c')).toBeUndefined();
+  });
+
+  it('puts every frame in one group when not splitting', () => {
+    const groups = groupSplitFrames([frame('B', {}, [day], [1]), frame('B', {}, [day], [2])], { splitBy: 'none' });
+    expect(groups.get('')).toHaveLength(2);
+  });
+});
+
+describe('processTimeSeriesData aggregations', () => {
+  const day = Date.UTC(2024, 2, 8);
+  const hour = 3600 * 1000;
+  const oneToTen = [
+    frame(
+      'A',
+      {},
+      [...Array(10).keys()].map((i) => day + i * hour),
+      [4, 8, 1, 10, 6, 3, 9, 2, 7, 5]
+    ),
+  ];
+
+  const aggregateDay = (frames: DataFrame[], aggregation: Parameters<typeof processTimeSeriesData>[1]) =>
+    processTimeSeriesData(frames, aggregation, 'utc')[0]?.count;
+
+  it('interpolates percentiles between the sorted samples', () => {
+    expect(aggregateDay(oneToTen, 'median')).toBe(5.5);
+    expect(aggregateDay(oneToTen, 'p90')).toBeCloseTo(9.1);
+    expect(aggregateDay(oneToTen, 'p95')).toBeCloseTo(9.55);
+    expect(aggregateDay(oneToTen, 'p99')).toBeCloseTo(9.91);
+  });
+
+  it('takes first, last and delta by sample time, not by frame order', () => {
+    const frames = [
+      frame('A', {}, [day + 3 * hour, day + hour], [30, 10]),
+      frame('B', {}, [day + 2 * hour, day + 4 * hour, day + 5 * hour], [20, 40, 35]),
+    ];
+    expect(aggregateDay(frames, 'first')).toBe(10);
+    expect(aggregateDay(frames, 'last')).toBe(35);
+    expect(aggregateDay(frames, 'delta')).toBe(25);
+  });
+
+  it('counts distinct sample values', () => {
+    expect(
+      aggregateDay([frame('A', {}, [day, day + hour, day + 2 * hour, day + 3 * hour], [1, 1, 2, 3])], 'distinct')
+    ).toBe(3);
+  });
+
+  it('aggregates a day of 200k samples without overflowing the stack', () => {
+    const count = 200_000;
+    const times = Array.from({ length: count }, (_, i) => day + i * 400);
+    const values = Array.from({ length: count }, (_, i) => (i % 1000) + 1);
+    const frames = [frame('A', {}, times, values)];
+
+    // range walks min and max in one loop
+    expect(aggregateDay(frames, 'range')).toBe(999);
+    expect(aggregateDay(frames, 'p99')).toBeCloseTo(990.01);
+  });
+});
+
+describe('value field selection', () => {
+  const day = Date.UTC(2024, 2, 8);
+  const hosts = [
+    toDataFrame({
+      fields: [
+        { name: 'time', type: FieldType.time, values: [day, day + 3600 * 1000] },
+        { name: 'cpu', type: FieldType.number, values: [1, 2] },
+        { name: 'mem', type: FieldType.number, values: [10, 20] },
+        { name: 'disk', type: FieldType.number, values: [100, null] },
+      ],
+    }),
+  ];
+
+  const daySum = (valueField: string, combineFields?: 'first' | 'sum' | 'avg' | 'max' | 'min') =>
+    processTimeSeriesData(hosts, 'sum', 'utc', { valueField, combineFields })[0]?.count;
+
+  it('uses the first numeric field by default', () => {
+    expect(daySum('')).toBe(3);
+  });
+
+  it('selects a field by name', () => {
+    expect(daySum('mem')).toBe(30);
+    expect(daySum('missing')).toBeUndefined();
+    expect(findValueField(hosts, 'mem')?.name).toBe('mem');
+  });
+
+  it('selects fields by /regex/', () => {
+    expect(daySum('/^(mem|disk)$/')).toBe(30);
+    expect(daySum('/^(mem|disk)$/', 'sum')).toBe(130);
+    expect(findValueField(hosts, '/^d/')?.name).toBe('disk');
+  });
+
+  it('combines the selected fields of every row, skipping missing values', () => {
+    // Rows: cpu, mem, disk = 1, 10, 100 and 2, 20, null
+    expect(daySum('/.*/', 'first')).toBe(3);
+    expect(daySum('/.*/', 'sum')).toBe(111 + 22);
+    expect(daySum('/.*/', 'avg')).toBe(37 + 11);
+    expect(daySum('/.*/', 'max')).toBe(100 + 20);
+    expect(daySum('/.*/', 'min')).toBe(1 + 2);
+  });
+});
+
+describe('processSplitData', () => {
+  const day = Date.UTC(2024, 2, 8);
+  const hour = 3600 * 1000;
+  const named = (name: string, labels: Record<string, string>, values: number[]) => ({
+    ...frame(
+      'A',
+      labels,
+      values.map((_, i) => day + i * hour),
+      values
+    ),
+    name,
+  });
+
+  const series = [
+    named('web-2', { host: 'web-2', dc: 'east' }, [5]),
+    named('web-10', { host: 'web-10', dc: 'west' }, [1, 2]),
+    named('web-1', { host: 'web-1', dc: 'east' }, [3]),
+  ];
+  const split = (splitBy: 'none' | 'series' | 'label', sort?: 'none' | 'total' | 'name', splitLabel?: string) =>
+    processSplitData(series, 'sum', 'utc', {}, { splitBy, splitLabel, sort });
+
+  it('keeps every frame in one row when not splitting', () => {
+    const rows = split('none');
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ name: '', total: 11, values: [{ date: '2024/03/08', count: 11 }] });
+  });
+
+  it('gives every series its own row, in query order', () => {
+    const rows = split('series');
+    expect(rows.map((row) => [row.name, row.total])).toEqual([
+      ['web-2', 5],
+      ['web-10', 3],
+      ['web-1', 3],
+    ]);
+  });
+
+  it('groups the series by label value', () => {
+    const rows = split('label', 'none', 'dc');
+    expect(rows.map((row) => [row.name, row.total, row.frames.length])).toEqual([
+      ['east', 8, 2],
+      ['west', 3, 1],
+    ]);
+    expect(split('label', 'none', 'missing').map((row) => row.name)).toEqual(['']);
+  });
+
+  it('sorts rows by total, largest first, or by name with numbers in order', () => {
+    expect(split('series', 'total').map((row) => row.name)).toEqual(['web-2', 'web-10', 'web-1']);
+    expect(split('series', 'name').map((row) => row.name)).toEqual(['web-1', 'web-2', 'web-10']);
+  });
+
+  it('keeps the samples of every row for the cell details', () => {
+    const [east, west] = split('label', 'none', 'dc');
+    const details = processCellDetails(east.samples, east.frames, 'sum').get('2024/03/08');
+
+    expect(details).toMatchObject({ samples: 2, min: 3, max: 5, avg: 4 });
+    expect(details?.series).toEqual([
+      { name: 'web-2', value: 5, samples: 1 },
+      { name: 'web-1', value: 3, samples: 1 },
+    ]);
+
+    // A single frame feeds the row, so there is no breakdown
+    expect(processCellDetails(west.samples, west.frames, 'sum').get('2024/03/08')).toMatchObject({
+      samples: 2,
+      series: [],
+    });
+  });
+});
+
+describe('zero days', () => {
+  const day = Date.UTC(2024, 2, 8);
+  const hour = 3600 * 1000;
+  // 03/08 sums to 0, 03/09 to 0.004 (below the first colored value), 03/10 to 3
+  const frames = [frame('A', {}, [day, day + hour, day + 24 * hour, day + 48 * hour], [2, -2, 0.004, 3])];
+
+  it('keeps days that aggregate to 0 when zeros are shown', () => {
+    expect(processTimeSeriesData(frames, 'sum', 'utc', { keepZeros: true })).toEqual([
+      { date: '2024/03/08', count: 0 },
+      { date: '2024/03/09', count: 0.004 },
+      { date: '2024/03/10', count: 3 },
+    ]);
+  });
+
+  it('drops days that aggregate to 0 otherwise', () => {
+    expect(processTimeSeriesData(frames, 'sum', 'utc')).toEqual([{ date: '2024/03/10', count: 3 }]);
+  });
+
+  it('keeps zero days out of every color level, leaving them to the zero color', () => {
+    const bounds = getBucketBounds(3, { levelCount: 4 });
+    for (const value of [0, 0.004]) {
+      expect(isZeroValue(value)).toBe(true);
+      expect(getLevelIndex(bounds, value)).toBe(-1);
+    }
+    expect(isZeroValue(-1)).toBe(false);
+    expect(isZeroValue(0.01)).toBe(false);
+  });
+});
+
+describe('getDivergingScale', () => {
+  const theme = createTheme();
+  const options = { negativeScheme: 'red', positiveScheme: 'green', levelCount: 4 };
+
+  it('draws the midpoint in the neutral color', () => {
+    const scale = getDivergingScale(theme, -10, 10, { ...options, midpoint: 0 });
+    expect(scale.neutral).toBe(theme.colors.border.strong);
+    expect(scale.colorAt(0)).toBe(scale.neutral);
+    expect(scale.negative).not.toContain(scale.neutral);
+    expect(scale.positive).not.toContain(scale.neutral);
+  });
+
+  it('splits each side of an asymmetric domain over its own extent', () => {
+    const scale = getDivergingScale(theme, -4, 100, { ...options, midpoint: 0 });
+    expect(scale).toMatchObject({ min: -4, midpoint: 0, max: 100 });
+    expect(scale.colorAt(-1)).toBe(scale.negative[1]);
+    expect(scale.colorAt(-4)).toBe(scale.negative[3]);
+    expect(scale.colorAt(1)).toBe(scale.positive[0]);
+    expect(scale.colorAt(50)).toBe(scale.positive[2]);
+    expect(scale.colorAt(100)).toBe(scale.positive[3]);
+  });
+
+  it('uses the larger extent on both sides when symmetric', () => {
+    const scale = getDivergingScale(theme, -4, 100, { ...options, midpoint: 0, symmetric: true });
+    expect(scale).toMatchObject({ min: -100, max: 100 });
+    expect(scale.colorAt(-4)).toBe(scale.negative[0]);
+    expect(scale.colorAt(-100)).toBe(scale.negative[3]);
+    expect(scale.colorAt(100)).toBe(scale.positive[3]);
+  });
+
+  it('clamps values outside the domain to the outermost levels', () => {
+    const scale = getDivergingScale(theme, -10, 10, { ...options, midpoint: 0 });
+    expect(scale.colorAt(-1000)).toBe(scale.negative[3]);
+    expect(scale.colorAt(1000)).toBe(scale.positive[3]);
+  });
+
+  it('extends the domain to the midpoint when all data lies above it', () => {
+    const scale = getDivergingScale(theme, 20, 60, { ...options, midpoint: 10 });
+    expect(scale).toMatchObject({ min: 10, midpoint: 10, max: 60 });
+    expect(scale.colorAt(20)).toBe(scale.positive[0]);
+    expect(scale.colorAt(60)).toBe(scale.positive[3]);
+  });
+
+  it('extends the domain to the midpoint when all data lies below it', () => {
+    const scale = getDivergingScale(theme, -60, -20, options);
+    expect(scale).toMatchObject({ min: -60, midpoint: 0, max: 0 });
+    expect(scale.colorAt(-20)).toBe(scale.negative[1]);
+    expect(scale.colorAt(-60)).toBe(scale.negative[3]);
+  });
+
+  it('centers comparisons on no change', () => {
+    const scale = getComparisonScale(theme, [-5, 0, 20], options);
+    expect(scale).toMatchObject({ min: -20, midpoint: 0, max: 20 });
+    expect(scale.colorAt(0)).toBe(scale.neutral);
+    expect(scale.colorAt(-20)).toBe(scale.negative[3]);
+  });
+});
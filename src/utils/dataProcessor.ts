@@ -1,79 +1,552 @@
-import { DataFrame, FieldType, GrafanaTheme2, dateTime, dateTimeFormat } from '@grafana/data';
+import {
+  DataFrame,
+  Field,
+  FieldColorModeId,
+  FieldType,
+  GrafanaTheme2,
+  colorManipulator,
+  dateTime,
+  getFieldDisplayName,
+  getFieldColorMode,
+  getFrameDisplayName,
+  stringStartsAsRegEx,
+  stringToJsRegex,
+} from '@grafana/data';
 import { HeatmapValue } from '../types';
+import { BucketStrategy, computeBreaks, dedupeBreaks, quantileSorted } from './bucketing';
+import { Granularity, formatHourOfWeekKey, formatPeriodKey } from './periods';
+
+type Aggregation =
+  | 'sum'
+  | 'count'
+  | 'avg'
+  | 'max'
+  | 'min'
+  | 'median'
+  | 'p90'
+  | 'p95'
+  | 'p99'
+  | 'first'
+  | 'last'
+  | 'range'
+  | 'stddev'
+  | 'distinct'
+  | 'delta';
+
+/** Raw samples of one day; times keep first/last/delta independent of frame order */
+export interface DailySamples {
+  times: number[];
+  values: number[];
+  /** Index of the frame every sample comes from */
+  frames: number[];
+}
 
-type Aggregation = 'sum' | 'count' | 'avg' | 'max' | 'min';
+export type FieldCombine = 'first' | 'sum' | 'avg' | 'max' | 'min';
+
+export interface ProcessOptions {
+  /**
+   * Field name or /regex/ selecting the value field(s).
+   * Empty: first numeric field of each frame.
+   */
+  valueField?: string;
+  /** How several matching numeric fields are reduced into one value per row */
+  combineFields?: FieldCombine;
+  /** Keep days whose aggregate is zero (see isZeroValue) instead of treating them as missing */
+  keepZeros?: boolean;
+  /** Bucket size; keys follow PERIOD_KEY_FORMAT */
+  granularity?: Granularity;
+  /** Bucket by weekday × hour of day instead (keys from formatHourOfWeekKey); granularity is ignored */
+  punchCard?: boolean;
+  /** Minutes after midnight a day starts at; earlier points count towards the day before (not in punch-card mode) */
+  dayStart?: number;
+}
 
-export function processTimeSeriesData(series: DataFrame[], aggregation: Aggregation, timeZone?: string): HeatmapValue[] {
-  const dailyData = new Map<string, number[]>();
+export function processTimeSeriesData(
+  series: DataFrame[],
+  aggregation: Aggregation,
+  timeZone?: string,
+  processOptions: ProcessOptions = {}
+): HeatmapValue[] {
+  return aggregateSamples(
+    collectSamples(series, series, timeZone, processOptions),
+    aggregation,
+    processOptions.keepZeros
+  );
+}
 
-  for (const frame of series) {
+function aggregateSamples(
+  dailyData: Map<string, DailySamples>,
+  aggregation: Aggregation,
+  keepZeros = false
+): HeatmapValue[] {
+  const result: HeatmapValue[] = [];
+
+  dailyData.forEach((samples, date) => {
+    const count = aggregate(samples, aggregation);
+
+    // 把 [0, 0.01) 当作 “没有数据”：不生成 heatmap cell
+    // 这样可以保证 0 不会落入任何颜色 bucket（避免被渲染成浅绿/浅蓝）
+    // keepZeros 时保留，作为单独的 “0” 状态渲染
+    if (!keepZeros && isZeroValue(count)) {
+      return;
+    }
+
+    // 不再四舍五入：显示精度交给 field config（decimals / unit）
+    result.push({ date, count });
+  });
+
+  result.sort((a, b) => a.date.localeCompare(b.date));
+
+  return result;
+}
+
+/** Raw samples of `frames` by cell key; `series` is the context value fields are matched (and named) in */
+function collectSamples(
+  frames: DataFrame[],
+  series: DataFrame[],
+  timeZone: string | undefined,
+  processOptions: ProcessOptions
+): Map<string, DailySamples> {
+  const {
+    valueField = '',
+    combineFields = 'first',
+    granularity = 'day',
+    punchCard = false,
+    dayStart = 0,
+  } = processOptions;
+  const dailyData = new Map<string, DailySamples>();
+
+  frames.forEach((frame, frameIndex) => {
     const timeField = frame.fields.find((f) => f.type === FieldType.time);
-    const valueField = frame.fields.find((f) => f.type === FieldType.number && f.name !== 'Time');
+    const valueFields = selectValueFields(frame, series, valueField, combineFields);
 
-    if (!timeField || !valueField) {
-      continue;
+    if (!timeField || valueFields.length === 0) {
+      return;
     }
 
     for (let i = 0; i < frame.length; i++) {
       const timestamp = timeField.values[i];
-      const value = valueField.values[i];
+      const value = combineRow(valueFields, i, combineFields);
 
-      if (value === null || value === undefined || isNaN(value)) {
+      if (value === null) {
         continue;
       }
 
-      const date = dateTimeFormat(dateTime(timestamp), {
-        format: 'YYYY/MM/DD',
-        timeZone,
-      });
+      const time = dateTime(timestamp);
+      const date = punchCard
+        ? formatHourOfWeekKey(time, timeZone)
+        : formatPeriodKey(time, granularity, timeZone, dayStart);
 
       if (!dailyData.has(date)) {
-        dailyData.set(date, []);
+        dailyData.set(date, { times: [], values: [], frames: [] });
       }
-      dailyData.get(date)!.push(value);
+      const day = dailyData.get(date)!;
+      day.times.push(time.valueOf());
+      day.values.push(value);
+      day.frames.push(frameIndex);
     }
-  }
+  });
 
-  const result: HeatmapValue[] = [];
+  return dailyData;
+}
 
-  dailyData.forEach((values, date) => {
-    const count = aggregate(values, aggregation);
+/** Daily aggregates in [0, 0.01) count as zero: never colored by a level, optionally shown as their own state. */
+export function isZeroValue(value: number): boolean {
+  return value >= 0 && value < MIN_COLORED_VALUE;
+}
 
-    // 把 [0, 0.01) 当作 “没有数据”：不生成 heatmap cell
-    // 这样可以保证 0 不会落入任何颜色 bucket（避免被渲染成浅绿/浅蓝）
-    if (count >= 0 && count < 0.01) {
-      return;
+// --------------------
+// Cell details (tooltip)
+// --------------------
+
+export interface SeriesValue {
+  name: string;
+  /** The panel aggregation over this series' samples of the cell */
+  value: number;
+  samples: number;
+}
+
+export interface CellDetails {
+  /** Raw samples aggregated into the cell */
+  samples: number;
+  min: number;
+  max: number;
+  avg: number;
+  /** Per-frame breakdown; empty when a single frame feeds the cell */
+  series: SeriesValue[];
+}
+
+/**
+ * Sample statistics of every cell of a row, from the samples the row was aggregated from
+ * (no second pass over the frames). `frames` are the row's frames, which the samples index.
+ */
+export function processCellDetails(
+  samples: Map<string, DailySamples>,
+  frames: DataFrame[],
+  aggregation: Aggregation
+): Map<string, CellDetails> {
+  const details = new Map<string, CellDetails>();
+
+  samples.forEach((cell, date) => {
+    const { min, max } = extent(cell.values);
+    details.set(date, {
+      samples: cell.values.length,
+      min,
+      max,
+      avg: sum(cell.values) / cell.values.length,
+      series: frames.length > 1 ? seriesBreakdown(cell, frames, aggregation) : [],
+    });
+  });
+
+  return details;
+}
+
+/** Per-frame aggregates of a cell, in frame order; empty when a single frame feeds it */
+function seriesBreakdown(cell: DailySamples, frames: DataFrame[], aggregation: Aggregation): SeriesValue[] {
+  const byFrame = new Map<number, DailySamples>();
+  cell.frames.forEach((frameIndex, i) => {
+    if (!byFrame.has(frameIndex)) {
+      byFrame.set(frameIndex, { times: [], values: [], frames: [] });
     }
+    const samples = byFrame.get(frameIndex)!;
+    samples.times.push(cell.times[i]);
+    samples.values.push(cell.values[i]);
+    samples.frames.push(frameIndex);
+  });
+
+  if (byFrame.size < 2) {
+    return [];
+  }
+  return Array.from(byFrame, ([index, samples]) => ({
+    name: getFrameDisplayName(frames[index], index),
+    value: aggregate(samples, aggregation),
+    samples: samples.values.length,
+  }));
+}
+
+// --------------------
+// Small multiples (split by series / label)
+// --------------------
+
+export type SplitBy = 'none' | 'series' | 'label';
+export type SplitSort = 'none' | 'total' | 'name';
+
+export interface HeatmapRow {
+  /** Row title: series name or label value ('' when split is off or the label is missing) */
+  name: string;
+  values: HeatmapValue[];
+  total: number;
+  /** Frames aggregated into the row */
+  frames: DataFrame[];
+  /** Raw samples of every cell, indexing `frames`; the source of the tooltip details */
+  samples: Map<string, DailySamples>;
+}
+
+export interface SplitOptions {
+  splitBy: SplitBy;
+  /** Label key used when splitBy=label */
+  splitLabel?: string;
+  sort?: SplitSort;
+}
 
-    result.push({ date, count: Math.round(count * 100) / 100 });
+/**
+ * Group frames into rows and aggregate every row independently.
+ * splitBy=none always yields exactly one row holding all frames.
+ */
+export function processSplitData(
+  series: DataFrame[],
+  aggregation: Aggregation,
+  timeZone: string | undefined,
+  processOptions: ProcessOptions,
+  split: SplitOptions
+): HeatmapRow[] {
+  const rows: HeatmapRow[] = [];
+  groupSplitFrames(series, split).forEach((frames, name) => {
+    const samples = collectSamples(frames, frames, timeZone, processOptions);
+    const values = aggregateSamples(samples, aggregation, processOptions.keepZeros);
+    const total = values.reduce((acc, v) => acc + v.count, 0);
+    rows.push({ name, values, total, frames, samples });
   });
 
-  result.sort((a, b) => a.date.localeCompare(b.date));
+  if (rows.length === 0) {
+    rows.push({ name: '', values: [], total: 0, frames: [], samples: new Map() });
+  }
+
+  switch (split.sort) {
+    case 'total':
+      rows.sort((a, b) => b.total - a.total);
+      break;
+    case 'name':
+      rows.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+      break;
+  }
 
+  return rows;
+}
+
+/** Frames by row name, in first-seen order; splitBy=none puts every frame under '' */
+export function groupSplitFrames(series: DataFrame[], split: SplitOptions): Map<string, DataFrame[]> {
+  const groups = new Map<string, DataFrame[]>();
+
+  series.forEach((frame, index) => {
+    const name = getSplitName(frame, index, split);
+    if (!groups.has(name)) {
+      groups.set(name, []);
+    }
+    groups.get(name)!.push(frame);
+  });
+
+  return groups;
+}
+
+function getSplitName(frame: DataFrame, index: number, split: SplitOptions): string {
+  if (split.splitBy === 'series') {
+    return getFrameDisplayName(frame, index);
+  }
+
+  if (split.splitBy === 'label') {
+    const key = (split.splitLabel ?? '').trim();
+    if (!key) {
+      return '';
+    }
+    const labeled = frame.fields.find((f) => f.labels?.[key] !== undefined);
+    return labeled?.labels?.[key] ?? '';
+  }
+
+  return '';
+}
+
+// --------------------
+// Period-over-period comparison
+// --------------------
+
+export type CompareTo = 'none' | 'weekAgo' | 'yearAgo' | 'query';
+export type CompareMetric = 'delta' | 'percent';
+
+export interface ComparedValue {
+  current: number;
+  /** Undefined when the reference day has no data */
+  reference?: number;
+  /** current - reference, or the percent change; undefined without a usable reference */
+  change?: number;
+}
+
+/**
+ * Change of every value against its reference.
+ * referenceKey maps a cell key to the key of its reference in `reference`
+ * (an earlier day of the same row, or the same day of another query).
+ * Percent change is undefined when the reference is 0.
+ */
+export function compareValues(
+  values: HeatmapValue[],
+  reference: Map<string, number>,
+  referenceKey: (key: string) => string,
+  metric: CompareMetric
+): Map<string, ComparedValue> {
+  const compared = new Map<string, ComparedValue>();
+
+  for (const { date, count } of values) {
+    const ref = reference.get(referenceKey(date));
+    let change: number | undefined;
+    if (ref !== undefined) {
+      if (metric === 'percent') {
+        change = ref !== 0 ? ((count - ref) / Math.abs(ref)) * 100 : undefined;
+      } else {
+        change = count - ref;
+      }
+    }
+    compared.set(date, { current: count, reference: ref, change });
+  }
+
+  return compared;
+}
+
+// --------------------
+// Value field selection
+// --------------------
+
+/**
+ * Build a predicate from the valueField option.
+ * "/.../flags" is treated as a regex, anything else as an exact name.
+ * Returns null for empty or invalid input (caller falls back to the first numeric field).
+ */
+function buildFieldMatcher(input: string): ((name: string) => boolean) | null {
+  const s = (input ?? '').trim();
+  if (s.length === 0) {
+    return null;
+  }
+
+  if (stringStartsAsRegEx(s)) {
+    try {
+      const re = stringToJsRegex(s);
+      return (name) => re.test(name);
+    } catch {
+      return null;
+    }
+  }
+
+  return (name) => name === s;
+}
+
+/**
+ * First field the valueField option selects, used as the source of the
+ * standard field config (unit, decimals, min/max, no value) for display.
+ */
+export function findValueField(series: DataFrame[], valueField: string): Field | undefined {
+  for (const frame of series) {
+    const fields = selectValueFields(frame, series, valueField, 'first');
+    if (fields.length > 0) {
+      return fields[0];
+    }
+  }
+  return undefined;
+}
+
+function selectValueFields(frame: DataFrame, series: DataFrame[], valueField: string, combine: FieldCombine): Field[] {
+  const numberFields = frame.fields.filter((f) => f.type === FieldType.number && f.name !== 'Time');
+  const matcher = buildFieldMatcher(valueField);
+
+  const matched = matcher
+    ? numberFields.filter((f) => matcher(f.name) || matcher(getFieldDisplayName(f, frame, series)))
+    : numberFields;
+
+  if (combine === 'first') {
+    return matched.slice(0, 1);
+  }
+  return matched;
+}
+
+/** Reduce the row values of the selected fields into one number, or null when none is usable. */
+function combineRow(fields: Field[], row: number, combine: FieldCombine): number | null {
+  let result: number | null = null;
+  let n = 0;
+
+  for (const field of fields) {
+    const value = field.values[row];
+    if (value === null || value === undefined || isNaN(value)) {
+      continue;
+    }
+
+    n++;
+    if (result === null) {
+      result = value;
+      continue;
+    }
+
+    switch (combine) {
+      case 'max':
+        result = Math.max(result, value);
+        break;
+      case 'min':
+        result = Math.min(result, value);
+        break;
+      default:
+        // sum / avg
+        result += value;
+    }
+  }
+
+  if (result !== null && combine === 'avg') {
+    return result / n;
+  }
   return result;
 }
 
-function aggregate(values: number[], method: Aggregation): number {
+function aggregate(samples: DailySamples, method: Aggregation): number {
+  const { values } = samples;
   if (values.length === 0) {
     return 0;
   }
 
+  // Loops only: Math.max(...values) overflows the call stack on days with many samples
   switch (method) {
     case 'sum':
-      return values.reduce((a, b) => a + b, 0);
+      return sum(values);
     case 'count':
       return values.length;
     case 'avg':
-      return values.reduce((a, b) => a + b, 0) / values.length;
+      return sum(values) / values.length;
     case 'max':
-      return Math.max(...values);
+      return extent(values).max;
     case 'min':
-      return Math.min(...values);
+      return extent(values).min;
+    case 'range': {
+      const { min, max } = extent(values);
+      return max - min;
+    }
+    case 'median':
+      return quantileSorted(sortedCopy(values), 0.5);
+    case 'p90':
+      return quantileSorted(sortedCopy(values), 0.9);
+    case 'p95':
+      return quantileSorted(sortedCopy(values), 0.95);
+    case 'p99':
+      return quantileSorted(sortedCopy(values), 0.99);
+    case 'first':
+      return values[firstLastIndex(samples.times).first];
+    case 'last':
+      return values[firstLastIndex(samples.times).last];
+    case 'delta': {
+      const { first, last } = firstLastIndex(samples.times);
+      return values[last] - values[first];
+    }
+    case 'stddev': {
+      const mean = sum(values) / values.length;
+      let squares = 0;
+      for (const v of values) {
+        squares += (v - mean) * (v - mean);
+      }
+      // population standard deviation
+      return Math.sqrt(squares / values.length);
+    }
+    case 'distinct':
+      return new Set(values).size;
     default:
-      return values.reduce((a, b) => a + b, 0);
+      return sum(values);
   }
 }
 
+function sum(values: number[]): number {
+  let total = 0;
+  for (const v of values) {
+    total += v;
+  }
+  return total;
+}
+
+function extent(values: number[]): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) {
+      min = v;
+    }
+    if (v > max) {
+      max = v;
+    }
+  }
+  return { min, max };
+}
+
+function sortedCopy(values: number[]): number[] {
+  return values.slice().sort((a, b) => a - b);
+}
+
+/** Indexes of the earliest and latest sample; ties keep input order. */
+function firstLastIndex(times: number[]): { first: number; last: number } {
+  let first = 0;
+  let last = 0;
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[first]) {
+      first = i;
+    }
+    if (times[i] >= times[last]) {
+      last = i;
+    }
+  }
+  return { first, last };
+}
+
 // --------------------
 // Custom color helpers
 // --------------------
@@ -146,20 +619,41 @@ function buildCustomLevels(base: RGB, theme: GrafanaTheme2): string[] {
 // Palette and Bucket mapping
 // --------------------
 
-export type BucketMode = 'auto' | 'custom';
+export type BucketMode = 'auto' | BucketStrategy | 'custom';
+
+export interface BucketOptions {
+  bucketMode?: BucketMode;
+  /** Comma-separated edges for bucketMode=custom, one per level, starting at 0 */
+  customBuckets?: string;
+  /** Lower end of the scale (field Min); unset starts auto at 0 and equal / log at the smallest value */
+  minCount?: number;
+  /** Number of colored levels */
+  levelCount?: number;
+  /** Aggregated daily values, required by the distribution-based modes (quantile, jenks) */
+  values?: number[];
+}
+
+export const MIN_LEVEL_COUNT = 2;
+export const MAX_LEVEL_COUNT = 10;
+export const DEFAULT_LEVEL_COUNT = 4;
+
+export function clampLevelCount(levelCount?: number): number {
+  if (levelCount === undefined || !Number.isFinite(levelCount)) {
+    return DEFAULT_LEVEL_COUNT;
+  }
+  return Math.max(MIN_LEVEL_COUNT, Math.min(MAX_LEVEL_COUNT, Math.round(levelCount)));
+}
 
 // 固定：空白 [0, 0.01)；>= 0.01 上色
 const MIN_COLORED_VALUE = 0.01;
-// epsilon：用于把 “>=0.01 上色” 精确实现出来，避免小数边界误差
-const MIN_EPS = 1e-12;
 
-function parseStrictCustomBuckets(input: string): number[] | null {
+function parseStrictCustomBuckets(input: string, levelCount: number): number[] | null {
   const parts = String(input)
     .split(',')
     .map((s) => s.trim())
     .filter((s) => s.length > 0);
 
-  if (parts.length !== 4) {
+  if (parts.length !== levelCount) {
     return null;
   }
 
@@ -184,7 +678,8 @@ function parseStrictCustomBuckets(input: string): number[] | null {
 function resolveColorLevels(
   scheme: string,
   theme: GrafanaTheme2,
-  customColor?: string
+  customColor?: string,
+  levelCount = DEFAULT_LEVEL_COUNT
 ): { emptyColor: string; levels: string[] } {
   const emptyColor = theme.colors.background.canvas;
 
@@ -209,103 +704,223 @@ function resolveColorLevels(
     colorLevels = shades.map((shade) => theme.visualization.getColorByName(`${shade}-${hue}`));
   }
 
-  return { emptyColor, levels: colorLevels };
+  return { emptyColor, levels: resampleLevels(colorLevels, clampLevelCount(levelCount)) };
 }
 
 /**
- * Legend colors (stable): [empty, level1, level2, level3, level4]
+ * Resample the four anchor shades into `count` evenly spaced colors.
+ * count=4 returns the anchors unchanged.
+ */
+function resampleLevels(anchors: string[], count: number): string[] {
+  if (count === anchors.length) {
+    return anchors;
+  }
+
+  const stops = anchors
+    .map((c) => parseColorToRgb(colorManipulator.asHexString(c)))
+    .filter((c): c is RGB => c !== null);
+  if (stops.length !== anchors.length) {
+    return anchors;
+  }
+
+  return Array.from({ length: count }, (_, i) => interpolateStops(stops, i / (count - 1)));
+}
+
+/**
+ * Legend colors (stable): [empty, level1, ..., levelN]
  * 用于 UI legend 渲染，避免从 thresholds 推导导致数量/顺序混乱。
  */
 export function getLegendColors(
   scheme: string,
   theme: GrafanaTheme2,
-  customColor?: string
+  customColor?: string,
+  levelCount = DEFAULT_LEVEL_COUNT
 ): string[] {
-  const { emptyColor, levels } = resolveColorLevels(scheme, theme, customColor);
+  const { emptyColor, levels } = resolveColorLevels(scheme, theme, customColor, levelCount);
   return [emptyColor, ...levels];
 }
 
+// --------------------
+// Continuous color scale
+// --------------------
+
+export type ColorMode = 'discrete' | 'continuous' | 'diverging';
+
+/** Linear interpolation over evenly spaced color stops; percent is clamped to [0, 1]. */
+function interpolateStops(stops: RGB[], percent: number): string {
+  const p = Math.max(0, Math.min(1, Number.isFinite(percent) ? percent : 0));
+  if (stops.length === 1) {
+    return rgbToCss(stops[0]);
+  }
+
+  const pos = p * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(pos));
+  return rgbToCss(mix(stops[i], stops[i + 1], pos - i));
+}
+
 /**
- * Heatmap panelColors thresholds.
- * @uiw/react-heat-map picks the first threshold STRICTLY greater than count.
- *
- * We want: empty is [0, 0.01), colored is [0.01, ...]
- * So:
- * - threshold 0.01 -> emptyColor (covers count < 0.01)
- * - threshold 0.01+eps -> first color (covers count >= 0.01)
+ * Continuous color function percent (0..1) -> css color.
+ * Uses the field's color mode when it is a continuous scheme (GrYlRd, Blues, Viridis, ...),
+ * otherwise a gradient over the discrete levels of the panel color scheme.
  */
-export function getColorPalette(
+export function getContinuousColorScale(
   scheme: string,
   theme: GrafanaTheme2,
-  maxCount: number,
   customColor?: string,
-  bucketMode: BucketMode = 'auto',
-  customBuckets?: string
-): Record<number, string> {
-  const { emptyColor, levels } = resolveColorLevels(scheme, theme, customColor);
+  field?: Field
+): (percent: number) => string {
+  const mode = getFieldColorMode(field?.config.color?.mode ?? FieldColorModeId.ContinuousGrYlRd);
 
-  const min = MIN_COLORED_VALUE;
-  const eps = MIN_EPS;
+  if (field && mode.isContinuous && mode.isByValue) {
+    const calc = mode.getCalculator(field, theme);
+    return (percent) => calc(0, Math.max(0, Math.min(1, percent)));
+  }
 
-  // base thresholds: empty then first colored boundary
-  const palette: Record<number, string> = {
-    0: emptyColor,
-    [min]: emptyColor,
-    [min + eps]: levels[0],
-  };
+  // levels are already ordered "less -> more" for the current theme
+  const { levels } = resolveColorLevels(scheme, theme, customColor);
+  const stops = levels
+    .map((c) => parseColorToRgb(colorManipulator.asHexString(theme.visualization.getColorByName(c))))
+    .filter((c): c is RGB => c !== null);
 
-  if (bucketMode === 'custom') {
-    const edges = parseStrictCustomBuckets(customBuckets ?? '');
-    if (!edges) {
-      // fallback to auto
-      bucketMode = 'auto';
-    } else {
-      // edges: [0, b1, b2, b3]
-      const [, b1, b2, b3] = edges;
-
-      // 强制保证：从 >=0.01 开始必定上色
-      const firstUpper = Math.max(b1, min + eps);
-
-      // 左闭右开区间由 “严格大于阈值” 自然实现（阈值作为排他上界）
-      // [min+eps, firstUpper) -> levels[0] （levels[0] 已经在 min+eps 处设置）
-      palette[firstUpper] = levels[0];
-      palette[b2] = levels[1];
-      palette[b3] = levels[2];
-
-      // >= b3 -> levels[3]
-      palette[Number.MAX_SAFE_INTEGER] = levels[3];
-
-      return palette;
-    }
+  if (stops.length === 0) {
+    return () => theme.visualization.getColorByName('green');
   }
+  return (percent) => interpolateStops(stops, percent);
+}
 
-  // --------
-  // AUTO mode (quantiles) - FIXED for @uiw/react-heat-map:
-  // thresholds are EXCLUSIVE upper bounds, strictly increasing,
-  // and we ensure the last bucket can color max values.
-  // --------
-  const safeMax = Number.isFinite(maxCount) ? Math.max(0, Math.ceil(maxCount)) : 0;
+// --------------------
+// Diverging scale (signed values)
+// --------------------
 
-  // Always keep 4 non-empty shades (levels[0..3]).
-  // Build 4 exclusive upper bounds for them.
-  const shadeQuantiles = [0.25, 0.5, 0.75, 1];
+export interface DivergingOptions {
+  midpoint?: number;
+  negativeScheme?: string;
+  positiveScheme?: string;
+  /** Use the same extent on both sides of the midpoint */
+  symmetric?: boolean;
+  /** Levels per side */
+  levelCount?: number;
+}
 
-  let prev = min + eps;
+export interface DivergingScale {
+  min: number;
+  midpoint: number;
+  max: number;
+  /** less -> more, i.e. ordered away from the midpoint */
+  negative: string[];
+  positive: string[];
+  /** Color of values exactly at the midpoint */
+  neutral: string;
+  colorAt: (value: number) => string;
+}
 
-  for (let i = 0; i < shadeQuantiles.length; i++) {
-    // inclusive cutoff (integer)
-    const cutoff = Math.round(safeMax * shadeQuantiles[i]);
-    // exclusive upper bound: cutoff + 1
-    const desiredUpper = cutoff + 1;
+/**
+ * Two discrete palettes around a midpoint: values below it use the negative scheme,
+ * values above it the positive one and the midpoint itself a neutral gray.
+ * Each side splits its extent into equal steps.
+ */
+export function getDivergingScale(
+  theme: GrafanaTheme2,
+  minValue: number,
+  maxValue: number,
+  options: DivergingOptions = {}
+): DivergingScale {
+  const { negativeScheme = 'red', positiveScheme = 'green', symmetric = false } = options;
+  const midpoint = Number.isFinite(options.midpoint) ? options.midpoint! : 0;
+  const levelCount = clampLevelCount(options.levelCount);
+
+  let min = Math.min(minValue, midpoint);
+  let max = Math.max(maxValue, midpoint);
+  if (symmetric) {
+    const extent = Math.max(max - midpoint, midpoint - min);
+    min = midpoint - extent;
+    max = midpoint + extent;
+  }
 
-    // Must be > prev and at least > (min+eps)
-    const upper = Math.max(prev + 1, Math.max(2, desiredUpper));
+  const negative = resolveColorLevels(negativeScheme, theme, undefined, levelCount).levels;
+  const positive = resolveColorLevels(positiveScheme, theme, undefined, levelCount).levels;
+  const neutral = theme.colors.border.strong;
 
-    palette[upper] = levels[i];
-    prev = upper;
-  }
+  const levelOf = (distance: number, extent: number) =>
+    extent > 0 ? Math.max(0, Math.min(levelCount - 1, Math.floor((distance / extent) * levelCount))) : levelCount - 1;
+
+  const colorAt = (value: number) => {
+    if (value === midpoint) {
+      return neutral;
+    }
+    return value < midpoint
+      ? negative[levelOf(midpoint - value, midpoint - min)]
+      : positive[levelOf(value - midpoint, max - midpoint)];
+  };
+
+  return { min, midpoint, max, negative, positive, neutral, colorAt };
+}
 
-  return palette;
+/**
+ * Comparison palette: a symmetric diverging scale around "no change",
+ * decreases in the negative scheme and increases in the positive one.
+ */
+export function getComparisonScale(
+  theme: GrafanaTheme2,
+  changes: number[],
+  options: Omit<DivergingOptions, 'midpoint' | 'symmetric'> = {}
+): DivergingScale {
+  const { min, max } = changes.length > 0 ? extent(changes) : { min: 0, max: 0 };
+  return getDivergingScale(theme, min, max, { ...options, midpoint: 0, symmetric: true });
 }
 
+/** Evenly sampled colors of a continuous scale, e.g. for a css linear-gradient legend. */
+export function sampleColorScale(colorAt: (percent: number) => string, samples = 9): string[] {
+  return Array.from({ length: samples }, (_, i) => colorAt(i / (samples - 1)));
+}
+
+/**
+ * Inclusive lower bound of every color level, ascending: level i covers
+ * [bounds[i], bounds[i + 1]) and the last level is open-ended.
+ * At most levelCount bounds: edges that collapse (e.g. a single distinct value) are merged.
+ * Shared by the cell colors and the legend so both always agree.
+ */
+export function getBucketBounds(maxCount: number, bucket: BucketOptions = {}): number[] {
+  const { bucketMode = 'auto', customBuckets, minCount } = bucket;
+  const levelCount = clampLevelCount(bucket.levelCount);
+  const min = MIN_COLORED_VALUE;
+  const hasMin = minCount !== undefined && Number.isFinite(minCount);
+
+  if (bucketMode === 'custom') {
+    const edges = parseStrictCustomBuckets(customBuckets ?? '', levelCount);
+    // invalid input falls back to auto
+    if (edges) {
+      // edges: [0, b1, ..., bN-1]; 低于 0.01 的边界不会上色，合并掉
+      return [min, ...dedupeBreaks(edges.slice(1), min)];
+    }
+  }
+
+  if (bucketMode !== 'auto' && bucketMode !== 'custom') {
+    // 只统计非空的日子（>= 0.01）
+    const sorted = (bucket.values ?? []).filter((v) => v >= min).sort((a, b) => a - b);
+    const lo = Math.max(min, hasMin ? minCount : (sorted[0] ?? min));
+    const hi = Number.isFinite(maxCount) ? Math.max(lo, maxCount) : lo;
+
+    return [min, ...dedupeBreaks(computeBreaks(bucketMode, sorted, levelCount, lo, hi), min)];
+  }
+
+  // AUTO mode: levelCount equal steps from the field Min (else 0) up to the max
+  const hi = Number.isFinite(maxCount) ? Math.max(0, maxCount) : 0;
+  const lo = hasMin ? Math.max(0, Math.min(minCount, hi)) : 0;
 
+  return [min, ...dedupeBreaks(computeBreaks('equal', [], levelCount, lo, hi), min)];
+}
+
+/** Index of the color level a value falls into, or -1 for empty values (< 0.01). */
+export function getLevelIndex(bounds: number[], value: number): number {
+  if (!(value >= MIN_COLORED_VALUE)) {
+    return -1;
+  }
+  let idx = 0;
+  for (let i = 1; i < bounds.length; i++) {
+    if (value >= bounds[i]) {
+      idx = i;
+    }
+  }
+  return idx;
+}
@@ -0,0 +1,267 @@
+import { setWeekStart } from '@grafana/data';
+import {
+  addDaysToKey,
+  alignDayRange,
+  countWeeks,
+  dayKey,
+  dayKeyOf,
+  dayKeysBetween,
+  dayRange,
+  daysBetween,
+  daysInMonth,
+  formatDayKey,
+  formatDayStart,
+  isoWeekOfKey,
+  localeWeekOfKey,
+  normalizeDayKey,
+  parseDayKey,
+  parseDayStart,
+  resolveWeekStart,
+  startOfDayKey,
+  startOfWeekKey,
+  weekdayOfKey,
+} from './dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('day keys', () => {
+  it('builds padded keys and rolls over out-of-range days', () => {
+    expect(dayKey(2024, 3, 5)).toBe('2024/03/05');
+    expect(dayKey(2024, 3, 0)).toBe('2024/02/29');
+    expect(dayKey(2023, 13, 1)).toBe('2024/01/01');
+  });
+
+  it('parses slashes, dashes and unpadded parts', () => {
+    expect(parseDayKey('2024/03/05')).toEqual({ year: 2024, month: 3, day: 5 });
+    expect(parseDayKey('2024-3-5')).toEqual({ year: 2024, month: 3, day: 5 });
+    expect(normalizeDayKey('2024/3/5')).toBe('2024/03/05');
+  });
+
+  it('rejects invalid dates and other keys', () => {
+    expect(parseDayKey('2023/02/29')).toBeNull();
+    expect(parseDayKey('2024/13')).toBeNull();
+    expect(parseDayKey('1/14')).toBeNull();
+    expect(normalizeDayKey('2024/13')).toBe('2024/13');
+  });
+
+  it('formats keys with weekday names', () => {
+    expect(formatDayKey('2024/03/15', 'dddd, YYYY/MM/DD')).toBe('Friday, 2024/03/15');
+    expect(formatDayKey('2024/3/5', 'ddd D MMM')).toBe('Tue 5 Mar');
+    expect(formatDayKey('2024 W11', 'dddd')).toBe('2024 W11');
+  });
+});
+
+describe('calendar arithmetic', () => {
+  it('adds days across months, leap days and years', () => {
+    expect(addDaysToKey('2024/02/28', 1)).toBe('2024/02/29');
+    expect(addDaysToKey('2024/02/29', 1)).toBe('2024/03/01');
+    expect(addDaysToKey('2024/12/31', 1)).toBe('2025/01/01');
+    expect(addDaysToKey('2024/01/01', -1)).toBe('2023/12/31');
+  });
+
+  it('counts whole days over DST changes', () => {
+    expect(daysBetween('2024/03/09', '2024/03/11')).toBe(2);
+    expect(daysBetween('2024/10/26', '2024/10/28')).toBe(2);
+    expect(dayKeysBetween('2024/03/30', '2024/04/01')).toEqual(['2024/03/30', '2024/03/31', '2024/04/01']);
+  });
+
+  it('leaves keys that are not days untouched', () => {
+    expect(addDaysToKey('2024/11', 1)).toBe('2024/11');
+  });
+
+  it('knows weekdays and week starts', () => {
+    expect(weekdayOfKey('2024/01/01')).toBe(1);
+    expect(weekdayOfKey('1969/12/28')).toBe(0);
+    expect(startOfWeekKey('2024/01/03', 0)).toBe('2023/12/31');
+    expect(startOfWeekKey('2024/01/03', 1)).toBe('2024/01/01');
+    expect(startOfWeekKey('2024/01/01', 1)).toBe('2024/01/01');
+  });
+
+  it('resolves the week start option', () => {
+    expect(resolveWeekStart('saturday')).toBe(6);
+    expect(resolveWeekStart('monday')).toBe(1);
+    // Grafana applies the user / org preference to the moment locale
+    setWeekStart('monday');
+    expect(resolveWeekStart('grafana')).toBe(1);
+    setWeekStart();
+    expect(resolveWeekStart('grafana')).toBe(0);
+  });
+
+  it('numbers ISO weeks across year boundaries', () => {
+    expect(isoWeekOfKey('2024/01/01')).toEqual({ year: 2024, week: 1 });
+    expect(isoWeekOfKey('2024/12/30')).toEqual({ year: 2025, week: 1 });
+    expect(isoWeekOfKey('2021/01/03')).toEqual({ year: 2020, week: 53 });
+    expect(isoWeekOfKey('2026/12/31')).toEqual({ year: 2026, week: 53 });
+  });
+
+  it('numbers locale weeks from the week holding January 1', () => {
+    expect(localeWeekOfKey('2024/01/01', 0)).toEqual({ year: 2024, week: 1 });
+    expect(localeWeekOfKey('2024/01/07', 0)).toEqual({ year: 2024, week: 2 });
+    expect(localeWeekOfKey('2024/12/29', 0)).toEqual({ year: 2025, week: 1 });
+    expect(localeWeekOfKey('2024/12/28', 6)).toEqual({ year: 2025, week: 1 });
+    expect(localeWeekOfKey('2024/12/27', 6)).toEqual({ year: 2024, week: 52 });
+  });
+
+  it('counts the week columns of a range', () => {
+    expect(countWeeks('2024/01/07', '2024/01/13')).toBe(1);
+    expect(countWeeks('2024/01/07', '2024/01/14')).toBe(2);
+    expect(countWeeks('2024/01/07', '2024/01/07', 1)).toBe(1);
+    expect(countWeeks('2024/01/01', '2024/12/31')).toBe(53);
+  });
+
+  it('knows month lengths', () => {
+    expect(daysInMonth(2024, 2)).toBe(29);
+    expect(daysInMonth(2023, 2)).toBe(28);
+    expect(daysInMonth(2024, 12)).toBe(31);
+  });
+});
+
+describe('dashboard time zones', () => {
+  // 2024-03-10T04:30:00Z: still March 9 in New York, already March 10 in UTC and Tokyo
+  const instant = Date.UTC(2024, 2, 10, 4, 30);
+
+  it('keys an instant in UTC', () => {
+    expect(dayKeyOf(instant, 'utc')).toBe('2024/03/10');
+  });
+
+  it('keys an instant in a named zone', () => {
+    expect(dayKeyOf(instant, 'America/New_York')).toBe('2024/03/09');
+    expect(dayKeyOf(instant, 'Asia/Tokyo')).toBe('2024/03/10');
+  });
+
+  it('keys an instant in the browser zone', () => {
+    // Tests run with TZ=UTC
+    expect(dayKeyOf(instant, 'browser')).toBe('2024/03/10');
+    expect(dayKeyOf(instant)).toBe('2024/03/10');
+  });
+
+  it('starts days at local midnight of the zone', () => {
+    expect(startOfDayKey('2024/03/10', 'utc')).toBe(Date.UTC(2024, 2, 10));
+    expect(startOfDayKey('2024/03/10', 'America/New_York')).toBe(Date.UTC(2024, 2, 10, 5));
+    expect(startOfDayKey('2024/03/10', 'Asia/Tokyo')).toBe(Date.UTC(2024, 2, 9, 15));
+  });
+
+  it('has 23 and 25 hour days at DST changes', () => {
+    const hours = (key: string, timeZone: string) =>
+      (startOfDayKey(addDaysToKey(key, 1), timeZone) - startOfDayKey(key, timeZone)) / HOUR_MS;
+
+    expect(hours('2024/03/10', 'America/New_York')).toBe(23);
+    expect(hours('2024/11/03', 'America/New_York')).toBe(25);
+    expect(hours('2024/03/31', 'Europe/Berlin')).toBe(23);
+    expect(hours('2024/10/27', 'Europe/Berlin')).toBe(25);
+    expect(hours('2024/03/31', 'utc')).toBe(24);
+  });
+
+  it('keeps every day of a range that spans a short DST day', () => {
+    const timeZone = 'America/New_York';
+    const from = startOfDayKey('2024/03/09', timeZone);
+    const to = startOfDayKey('2024/03/12', timeZone) - 1;
+
+    // 3 calendar days are only 71 hours here
+    expect((to + 1 - from) / HOUR_MS).toBe(71);
+    expect(dayRange(from, to, timeZone)).toEqual({ startKey: '2024/03/09', endKey: '2024/03/11', dayCount: 3 });
+  });
+
+  it('does not duplicate the last day of a range that spans a long DST day', () => {
+    const timeZone = 'Europe/Berlin';
+    const from = startOfDayKey('2024/10/26', timeZone);
+    const to = startOfDayKey('2024/10/28', timeZone) - 1;
+
+    expect(dayRange(from, to, timeZone)).toEqual({ startKey: '2024/10/26', endKey: '2024/10/27', dayCount: 2 });
+  });
+
+  it('takes range days from the dashboard zone, not the browser', () => {
+    // Evening of March 9 in Los Angeles is March 10 in the (UTC) browser
+    const from = Date.UTC(2024, 2, 10, 6);
+    const to = Date.UTC(2024, 2, 12, 6);
+
+    expect(dayRange(from, to, 'America/Los_Angeles')).toEqual({
+      startKey: '2024/03/09',
+      endKey: '2024/03/11',
+      dayCount: 3,
+    });
+    expect(dayRange(from, to, 'utc')).toEqual({ startKey: '2024/03/10', endKey: '2024/03/12', dayCount: 3 });
+  });
+});
+
+describe('day start', () => {
+  it('parses HH:MM', () => {
+    expect(parseDayStart('06:00')).toBe(360);
+    expect(parseDayStart('9')).toBe(540);
+    expect(parseDayStart(' 23:59 ')).toBe(1439);
+    expect(parseDayStart('')).toBe(0);
+    expect(parseDayStart('24:00')).toBe(0);
+    expect(parseDayStart('6:5')).toBe(0);
+    expect(formatDayStart(545)).toBe('09:05');
+  });
+
+  it('counts times before the boundary towards the day before', () => {
+    expect(dayKeyOf(Date.UTC(2024, 2, 15, 5, 59), 'utc', 360)).toBe('2024/03/14');
+    expect(dayKeyOf(Date.UTC(2024, 2, 15, 6, 0), 'utc', 360)).toBe('2024/03/15');
+    // 08:30 in New York
+    expect(dayKeyOf(Date.UTC(2024, 2, 15, 12, 30), 'America/New_York', 540)).toBe('2024/03/14');
+  });
+
+  it('keeps the boundary on the wall clock over DST changes', () => {
+    const timeZone = 'America/New_York';
+    // 06:30 EDT on the day clocks went forward: 6 hours after midnight would still be 05:30
+    expect(dayKeyOf(Date.UTC(2024, 2, 10, 10, 30), timeZone, 360)).toBe('2024/03/10');
+    expect(startOfDayKey('2024/03/10', timeZone, 360)).toBe(Date.UTC(2024, 2, 10, 10));
+    expect(startOfDayKey('2024/03/11', timeZone, 360) - startOfDayKey('2024/03/10', timeZone, 360)).toBe(24 * HOUR_MS);
+  });
+
+  it('moves the range of days with the boundary', () => {
+    const from = Date.UTC(2024, 2, 15, 3);
+    const to = Date.UTC(2024, 2, 17, 3);
+    expect(dayRange(from, to, 'utc', 360)).toEqual({ startKey: '2024/03/14', endKey: '2024/03/16', dayCount: 3 });
+  });
+});
+
+describe('range alignment', () => {
+  const range = { startKey: '2024/02/10', endKey: '2024/05/20', dayCount: 101 };
+
+  it('leaves the range alone without alignment', () => {
+    expect(alignDayRange(range, 'none')).toBe(range);
+  });
+
+  it('widens to calendar years', () => {
+    expect(alignDayRange(range, 'calendarYear', { yearStartMonth: 7 })).toEqual({
+      startKey: '2024/01/01',
+      endKey: '2024/12/31',
+      dayCount: 366,
+    });
+  });
+
+  it('widens to fiscal years', () => {
+    expect(alignDayRange(range, 'fiscalYear', { yearStartMonth: 4 })).toEqual({
+      startKey: '2023/04/01',
+      endKey: '2025/03/31',
+      dayCount: 731,
+    });
+  });
+
+  it('widens to quarters counted from the fiscal year start', () => {
+    expect(alignDayRange(range, 'quarter')).toMatchObject({ startKey: '2024/01/01', endKey: '2024/06/30' });
+    expect(alignDayRange(range, 'quarter', { yearStartMonth: 2 })).toMatchObject({
+      startKey: '2024/02/01',
+      endKey: '2024/07/31',
+    });
+    expect(alignDayRange(range, 'quarter', { yearStartMonth: 12 })).toMatchObject({
+      startKey: '2023/12/01',
+      endKey: '2024/05/31',
+    });
+  });
+
+  it('covers the last whole weeks up to the week of the last day', () => {
+    // 2024/05/20 is a Monday
+    expect(alignDayRange(range, 'weeks', { weeks: 2, weekStart: 1 })).toEqual({
+      startKey: '2024/05/13',
+      endKey: '2024/05/26',
+      dayCount: 14,
+    });
+    expect(alignDayRange(range, 'weeks', { weeks: 1, weekStart: 0 })).toMatchObject({
+      startKey: '2024/05/19',
+      endKey: '2024/05/25',
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { DateTimeInput, dateTimeFormat, dateTimeParse, getLocaleData } from '@grafana/data';
+
+// --------------------
+// Calendar days in the dashboard time zone
+// --------------------
+//
+// A day is identified by its key (YYYY/MM/DD), the same key the daily cells use.
+// Instants become keys in the dashboard time zone; from there on everything is
+// calendar arithmetic on the keys, so a 23 or 25 hour DST day, or a browser in
+// another zone than the dashboard, never moves a cell to a neighbouring day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_KEY_FORMAT = 'YYYY/MM/DD';
+const WALL_CLOCK_FORMAT = 'YYYY/MM/DD HH:mm';
+
+export interface CalendarDay {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+/** Days since 1970-01-01 of a calendar day; calendar arithmetic runs on these */
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(n: number): CalendarDay {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** Key of a calendar day; out-of-range months and days roll over (day 0 is the last day of the previous month) */
+export function dayKey(year: number, month: number, day: number): string {
+  const d = fromDayNumber(toDayNumber(year, month, day));
+  return `${d.year}/${String(d.month).padStart(2, '0')}/${String(d.day).padStart(2, '0')}`;
+}
+
+/** YYYY/MM/DD or YYYY-MM-DD, padded or not; null for anything else or an invalid date */
+export function parseDayKey(key: string): CalendarDay | null {
+  const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(String(key).trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const d = fromDayNumber(toDayNumber(year, month, day));
+  return d.year === year && d.month === month && d.day === day ? d : null;
+}
+
+/** Days since 1970-01-01, NaN for keys that are not days */
+export function dayNumber(key: string): number {
+  const d = parseDayKey(key);
+  return d ? toDayNumber(d.year, d.month, d.day) : NaN;
+}
+
+export function dayKeyFromNumber(n: number): string {
+  const d = fromDayNumber(n);
+  return dayKey(d.year, d.month, d.day);
+}
+
+/**
+ * Day key of an instant in the dashboard time zone ('browser', 'utc' or a named zone).
+ * dayStart: minutes after midnight the day starts at; earlier times belong to the day before.
+ * It is compared with the wall clock, so the boundary stays at the same time on DST days.
+ */
+export function dayKeyOf(time: DateTimeInput, timeZone?: string, dayStart = 0): string {
+  if (!dayStart) {
+    return dateTimeFormat(time, { format: DAY_KEY_FORMAT, timeZone });
+  }
+  const [key, clock] = dateTimeFormat(time, { format: WALL_CLOCK_FORMAT, timeZone }).split(' ');
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes < dayStart ? addDaysToKey(key, -1) : key;
+}
+
+/** Normalised key (padded, slashes); unparsable keys are returned as they are */
+export function normalizeDayKey(key: string): string {
+  const d = parseDayKey(key);
+  return d ? dayKey(d.year, d.month, d.day) : key;
+}
+
+/** A day key in a moment format with the locale's names, e.g. 'dddd, YYYY/MM/DD'; other keys are returned as they are */
+export function formatDayKey(key: string, format: string): string {
+  const d = parseDayKey(key);
+  return d ? dateTimeFormat(toDayNumber(d.year, d.month, d.day) * DAY_MS, { format, timeZone: 'utc' }) : key;
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  const n = dayNumber(key);
+  return Number.isFinite(n) ? dayKeyFromNumber(n + days) : key;
+}
+
+/** Calendar days from one key to another (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+/** 0 = Sunday, NaN for keys that are not days */
+export function weekdayOfKey(key: string): number {
+  // day 0 (1970-01-01) was a Thursday
+  return (((dayNumber(key) + 4) % 7) + 7) % 7;
+}
+
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type WeekdayName = (typeof WEEKDAY_NAMES)[number];
+
+/**
+ * Weekday index (0 = Sunday) of a week start option. Anything but a weekday name follows
+ * Grafana's user / org preference, which Grafana applies to the moment locale on startup.
+ */
+export function resolveWeekStart(weekStart: string | undefined): number {
+  const index = WEEKDAY_NAMES.indexOf(weekStart as WeekdayName);
+  return index >= 0 ? index : getLocaleData().firstDayOfWeek();
+}
+
+/** First day of the week a key falls in; weekStart 0 = Sunday */
+export function startOfWeekKey(key: string, weekStart: number): string {
+  return addDaysToKey(key, -((weekdayOfKey(key) - weekStart + 7) % 7));
+}
+
+export interface WeekNumber {
+  /** Year the week is counted in, which may differ from the year of the day */
+  year: number;
+  week: number;
+}
+
+/** ISO 8601 week: weeks start on Monday and week 1 holds the first Thursday of the year */
+export function isoWeekOfKey(key: string): WeekNumber {
+  const thursday = dayNumber(key) - ((weekdayOfKey(key) + 6) % 7) + 3;
+  const year = fromDayNumber(thursday).year;
+  return { year, week: Math.floor((thursday - toDayNumber(year, 1, 1)) / 7) + 1 };
+}
+
+/** Locale-style week: weeks start on weekStart and week 1 is the one holding January 1 */
+export function localeWeekOfKey(key: string, weekStart: number): WeekNumber {
+  const start = startOfWeekKey(key, weekStart);
+  const year = fromDayNumber(dayNumber(start) + 6).year;
+  const firstWeek = startOfWeekKey(dayKey(year, 1, 1), weekStart);
+  return { year, week: daysBetween(firstWeek, start) / 7 + 1 };
+}
+
+/** month is 1-12 */
+export function daysInMonth(year: number, month: number): number {
+  return fromDayNumber(toDayNumber(year, month + 1, 0)).day;
+}
+
+/** "HH:MM" of a number of minutes after midnight */
+export function formatDayStart(dayStart: number): string {
+  const hours = Math.floor(dayStart / 60);
+  return `${String(hours).padStart(2, '0')}:${String(dayStart % 60).padStart(2, '0')}`;
+}
+
+/** Minutes after midnight of an "HH:MM" (or "H") day start; 0 when empty or invalid */
+export function parseDayStart(value: string | undefined): number {
+  const match = /^\s*(\d{1,2})(?::(\d{2}))?\s*$/.exec(value ?? '');
+  if (!match) {
+    return 0;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : 0;
+}
+
+/** Instant (ms) the day starts at in the dashboard time zone, dayStart minutes after midnight */
+export function startOfDayKey(key: string, timeZone?: string, dayStart = 0): number {
+  return dateTimeParse(`${normalizeDayKey(key)} ${formatDayStart(dayStart)}`, {
+    format: WALL_CLOCK_FORMAT,
+    timeZone,
+  }).valueOf();
+}
+
+export interface DayRange {
+  startKey: string;
+  endKey: string;
+  /** Calendar days in the range, both ends included */
+  dayCount: number;
+}
+
+/** Calendar days a time range touches in the dashboard time zone (days start dayStart minutes after midnight) */
+export function dayRange(from: DateTimeInput, to: DateTimeInput, timeZone?: string, dayStart = 0): DayRange {
+  const startKey = dayKeyOf(from, timeZone, dayStart);
+  const endKey = dayKeyOf(to, timeZone, dayStart);
+  return { startKey, endKey, dayCount: Math.max(1, daysBetween(startKey, endKey) + 1) };
+}
+
+export type RangeAlignment = 'none' | 'calendarYear' | 'fiscalYear' | 'quarter' | 'weeks';
+
+export interface AlignmentOptions {
+  /** First month (1-12) of the fiscal year; quarters are counted from it too */
+  yearStartMonth?: number;
+  /** Number of whole weeks, ending with the week of the last day, in 'weeks' mode */
+  weeks?: number;
+  /** 0 = Sunday */
+  weekStart?: number;
+}
+
+/** First day of the period of `months` months (counted from yearStartMonth) a day falls in */
+function periodStartKey(key: string, months: number, yearStartMonth: number): string {
+  const d = parseDayKey(key);
+  if (!d) {
+    return key;
+  }
+  const offset = (d.month - yearStartMonth + 12) % 12;
+  return dayKey(d.year, d.month - (offset % months), 1);
+}
+
+/**
+ * Widen a range of days to whole periods: calendar or fiscal years, (fiscal) quarters, or the
+ * last N whole weeks up to the week of endKey. 'none' returns the range as it is.
+ */
+export function alignDayRange(range: DayRange, alignment: RangeAlignment, options: AlignmentOptions = {}): DayRange {
+  const { yearStartMonth = 1, weeks = 1, weekStart = 0 } = options;
+  let { startKey, endKey } = range;
+
+  if (alignment === 'calendarYear' || alignment === 'fiscalYear' || alignment === 'quarter') {
+    const startMonth = alignment === 'calendarYear' ? 1 : Math.min(12, Math.max(1, Math.round(yearStartMonth)));
+    const months = alignment === 'quarter' ? 3 : 12;
+    startKey = periodStartKey(startKey, months, startMonth);
+    const lastStart = parseDayKey(periodStartKey(endKey, months, startMonth));
+    if (lastStart) {
+      endKey = dayKey(lastStart.year, lastStart.month + months, 0);
+    }
+  } else if (alignment === 'weeks') {
+    endKey = addDaysToKey(startOfWeekKey(endKey, weekStart), 6);
+    startKey = addDaysToKey(endKey, -7 * Math.max(1, Math.round(weeks)) + 1);
+  } else {
+    return range;
+  }
+
+  return { startKey, endKey, dayCount: Math.max(1, daysBetween(startKey, endKey) + 1) };
+}
+
+/** Every key from startKey to endKey, both included */
+export function dayKeysBetween(startKey: string, endKey: string): string[] {
+  const first = dayNumber(startKey);
+  const last = dayNumber(endKey);
+  const keys: string[] = [];
+  for (let n = first; n <= last; n++) {
+    keys.push(dayKeyFromNumber(n));
+  }
+  return keys;
+}
+
+/** Week columns (or rows) a calendar needs to show startKey..endKey; weekStart 0 = Sunday */
+export function countWeeks(startKey: string, endKey: string, weekStart = 0): number {
+  const days = daysBetween(startOfWeekKey(startKey, weekStart), endKey);
+  return Number.isFinite(days) ? Math.max(1, Math.ceil((Math.max(0, days) + 1) / 7)) : 1;
+}
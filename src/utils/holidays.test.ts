@@ -0,0 +1,74 @@
+import { isWeekendKey, parseHolidays } from './holidays';
+
+describe('parseHolidays', () => {
+  it('reads ISO date lines, skipping comments, blank lines and invalid dates', () => {
+    const holidays = parseHolidays(
+      [
+        '# Public holidays',
+        '',
+        '2024-12-25 Christmas Day',
+        '2024-12-26,Boxing Day',
+        '2024-01-01',
+        '2024-02-30 Bogus',
+      ].join('\n')
+    );
+
+    expect([...holidays.entries()]).toEqual([
+      ['2024/12/25', 'Christmas Day'],
+      ['2024/12/26', 'Boxing Day'],
+      ['2024/01/01', ''],
+    ]);
+  });
+
+  it('reads an all-day iCalendar event', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240704',
+      'SUMMARY:Independence Day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect([...parseHolidays(ics).entries()]).toEqual([['2024/07/04', 'Independence Day']]);
+  });
+
+  it('expands an event up to its exclusive DTEND', () => {
+    const ics = [
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241230',
+      'DTEND;VALUE=DATE:20250102',
+      'SUMMARY:Office closed',
+      'END:VEVENT',
+    ].join('\n');
+
+    expect([...parseHolidays(ics).keys()]).toEqual(['2024/12/30', '2024/12/31', '2025/01/01']);
+  });
+
+  it('unfolds continuation lines and unescapes the summary', () => {
+    const ics = [
+      'BEGIN:VEVENT',
+      'DTSTART:20241225T000000Z',
+      'SUMMARY:Christmas\\, the',
+      '  long one',
+      'END:VEVENT',
+    ].join('\r\n');
+
+    expect(parseHolidays(ics).get('2024/12/25')).toBe('Christmas, the long one');
+  });
+
+  it('skips events with an invalid start', () => {
+    expect(parseHolidays('BEGIN:VEVENT\nDTSTART:20240230\nSUMMARY:Bogus\nEND:VEVENT').size).toBe(0);
+  });
+});
+
+describe('isWeekendKey', () => {
+  it('is true for Saturdays and Sundays', () => {
+    expect(['2024/03/08', '2024/03/09', '2024/03/10', '2024/03/11'].map(isWeekendKey)).toEqual([
+      false,
+      true,
+      true,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { addDaysToKey, dayKey, daysBetween, parseDayKey, weekdayOfKey } from './dates';
+
+// --------------------
+// Holidays / non-working days
+// --------------------
+//
+// Keys follow the daily cell keys (YYYY/MM/DD), values are the holiday names
+// (empty when the source gives none).
+
+// Multi-day iCalendar events are expanded day by day, up to this many days
+const MAX_EVENT_DAYS = 366;
+
+/** Day key of a year, month and day, or null when the date does not exist (no rolling over) */
+function validDayKey(year: string, month: string, day: string): string | null {
+  const d = parseDayKey(`${year}/${month}/${day}`);
+  return d ? dayKey(d.year, d.month, d.day) : null;
+}
+
+/** "YYYY-MM-DD name" lines; the name may follow whitespace, a comma or a semicolon. Other lines are skipped */
+function parseIsoLines(input: string, holidays: Map<string, string>) {
+  for (const line of input.split(/\r?\n/)) {
+    const match = /^\s*(\d{4})-(\d{2})-(\d{2})(?:[\s,;]+(.*))?$/.exec(line);
+    const key = match && validDayKey(match[1], match[2], match[3]);
+    if (!key) {
+      continue;
+    }
+    holidays.set(key, (match[4] ?? '').trim());
+  }
+}
+
+/** iCalendar DATE or DATE-TIME value (20241225 or 20241225T090000Z) as a day key */
+function parseIcsDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match && validDayKey(match[1], match[2], match[3]);
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * VEVENT blocks of an .ics body: DTSTART, DTEND (exclusive) and SUMMARY.
+ * Recurrence rules (RRULE) are not expanded.
+ */
+function parseIcs(input: string, holidays: Map<string, string>) {
+  // Unfold continuation lines (RFC 5545: CRLF followed by a space or tab)
+  const lines = input.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  let event: { start?: string; end?: string; summary?: string } | null = null;
+
+  for (const line of lines) {
+    const sep = line.indexOf(':');
+    if (sep < 0) {
+      continue;
+    }
+    const name = line.slice(0, sep).split(';')[0].toUpperCase();
+    const value = line.slice(sep + 1);
+
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VEVENT') {
+      event = {};
+    } else if (name === 'END' && value.trim().toUpperCase() === 'VEVENT') {
+      if (event?.start) {
+        const { start, end, summary = '' } = event;
+        const days = end ? Math.min(MAX_EVENT_DAYS, Math.max(1, daysBetween(start, end))) : 1;
+        for (let i = 0; i < days; i++) {
+          holidays.set(addDaysToKey(start, i), summary);
+        }
+      }
+      event = null;
+    } else if (event && name === 'DTSTART') {
+      event.start = parseIcsDate(value) ?? undefined;
+    } else if (event && name === 'DTEND') {
+      event.end = parseIcsDate(value) ?? undefined;
+    } else if (event && name === 'SUMMARY') {
+      event.summary = unescapeIcsText(value);
+    }
+  }
+}
+
+/** Holidays from ISO date lines or an iCalendar (.ics) body */
+export function parseHolidays(input: string): Map<string, string> {
+  const holidays = new Map<string, string>();
+  const text = String(input ?? '');
+
+  if (/BEGIN:VCALENDAR|BEGIN:VEVENT/i.test(text)) {
+    parseIcs(text, holidays);
+  } else {
+    parseIsoLines(text, holidays);
+  }
+  return holidays;
+}
+
+/** Saturday or Sunday, for a YYYY/MM/DD key */
+export function isWeekendKey(key: string): boolean {
+  const weekday = weekdayOfKey(key);
+  return weekday === 0 || weekday === 6;
+}
@@ -0,0 +1,27 @@
+import { nextHourOfWeekKey, shiftPeriodKey } from './periods';
+
+describe('shiftPeriodKey', () => {
+  it('goes back a week to the same weekday', () => {
+    expect(shiftPeriodKey('2024/03/10', 'day', -1, 'week')).toBe('2024/03/03');
+    expect(shiftPeriodKey('2024/01/03', 'day', -1, 'week')).toBe('2023/12/27');
+  });
+
+  it('goes back a year to the same date', () => {
+    expect(shiftPeriodKey('2024/03/10', 'day', -1, 'year')).toBe('2023/03/10');
+    // February 29 has no match the year before
+    expect(shiftPeriodKey('2024/02/29', 'day', -1, 'year')).toBe('2023/02/28');
+  });
+
+  it('shifts over DST changes by whole days', () => {
+    expect(shiftPeriodKey('2024/03/31', 'day', -1, 'week')).toBe('2024/03/24');
+    expect(shiftPeriodKey('2024/11/03', 'day', -1, 'week')).toBe('2024/10/27');
+  });
+});
+
+describe('nextHourOfWeekKey', () => {
+  it('wraps from the last hour of the week to the first', () => {
+    expect(nextHourOfWeekKey('1/09')).toBe('1/10');
+    expect(nextHourOfWeekKey('1/23')).toBe('2/00');
+    expect(nextHourOfWeekKey('6/23')).toBe('0/00');
+  });
+});
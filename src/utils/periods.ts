@@ -0,0 +1,153 @@
+import { AbsoluteTimeRange, DateTimeInput, dateTimeFormat, dateTimeParse } from '@grafana/data';
+import { addDaysToKey, dayKey, dayKeyOf, isoWeekOfKey, startOfDayKey, startOfWeekKey } from './dates';
+
+// --------------------
+// Bucketing periods (day / ISO week / month)
+// --------------------
+
+export type Granularity = 'day' | 'week' | 'month';
+
+/** Moment format of the bucket key; keys sort chronologically as plain strings */
+export const PERIOD_KEY_FORMAT: Record<Granularity, string> = {
+  day: 'YYYY/MM/DD',
+  week: 'GGGG/WW',
+  month: 'YYYY/MM',
+};
+
+/**
+ * Bucket key of an instant in the dashboard time zone.
+ * dayStart: minutes after midnight a day starts at (shift-based days); the period is the one its day falls in.
+ */
+export function formatPeriodKey(
+  time: DateTimeInput,
+  granularity: Granularity,
+  timeZone?: string,
+  dayStart = 0
+): string {
+  if (!dayStart) {
+    return dateTimeFormat(time, { format: PERIOD_KEY_FORMAT[granularity], timeZone });
+  }
+  return periodKeyOfDay(dayKeyOf(time, timeZone, dayStart), granularity);
+}
+
+/** Key of the period a day (YYYY/MM/DD) falls in */
+function periodKeyOfDay(day: string, granularity: Granularity): string {
+  if (granularity === 'month') {
+    return day.slice(0, 7);
+  }
+  if (granularity === 'week') {
+    const { year, week } = isoWeekOfKey(day);
+    return `${year}/${String(week).padStart(2, '0')}`;
+  }
+  return day;
+}
+
+/** First day (YYYY/MM/DD) of a period, or of the period after it when `next` is set */
+function periodFirstDay(key: string, granularity: Granularity, next = false): string {
+  const [year, index] = key.split('/').map(Number);
+  if (granularity === 'month') {
+    return dayKey(year, index + (next ? 1 : 0), 1);
+  }
+  if (granularity === 'week') {
+    // ISO week 1 is the week holding January 4
+    const monday = addDaysToKey(startOfWeekKey(dayKey(year, 1, 4), 1), (index - 1) * 7);
+    return next ? addDaysToKey(monday, 7) : monday;
+  }
+  return next ? addDaysToKey(key, 1) : key;
+}
+
+/** Human-readable key: 2024/03/15, 2024 W11, 2024/03 */
+export function displayPeriodKey(key: string, granularity: Granularity): string {
+  if (granularity === 'week') {
+    const [year, week] = key.split('/');
+    return `${year} W${week}`;
+  }
+  return key;
+}
+
+/**
+ * Absolute range from the start of the first period to the end of the last one, in the dashboard time zone.
+ * Days start dayStart minutes after midnight.
+ */
+export function periodKeysToRange(
+  fromKey: string,
+  toKey: string,
+  granularity: Granularity,
+  timeZone?: string,
+  dayStart = 0
+): AbsoluteTimeRange {
+  const [first, last] = fromKey <= toKey ? [fromKey, toKey] : [toKey, fromKey];
+  const from = startOfDayKey(periodFirstDay(first, granularity), timeZone, dayStart);
+  const to = startOfDayKey(periodFirstDay(last, granularity, true), timeZone, dayStart);
+  return { from, to: to - 1 };
+}
+
+/** Start and end of a period as wall-clock times, e.g. "2024/03/15 06:00 – 2024/03/16 06:00" */
+export function displayPeriodWindow(key: string, granularity: Granularity, timeZone?: string, dayStart = 0): string {
+  const { from, to } = periodKeysToRange(key, key, granularity, timeZone, dayStart);
+  const format = 'YYYY/MM/DD HH:mm';
+  return `${dateTimeFormat(from, { format, timeZone })} – ${dateTimeFormat(to + 1, { format, timeZone })}`;
+}
+
+// --------------------
+// Punch card (weekday × hour of day)
+// --------------------
+
+/** Weekday (0 = Sunday) and hour of day, e.g. "1/14" for Monday 14:00 */
+const HOUR_OF_WEEK_FORMAT = 'd/HH';
+
+export function formatHourOfWeekKey(time: DateTimeInput, timeZone?: string): string {
+  return dateTimeFormat(time, { format: HOUR_OF_WEEK_FORMAT, timeZone });
+}
+
+export function hourOfWeekKey(weekday: number, hour: number): string {
+  return `${weekday}/${String(hour).padStart(2, '0')}`;
+}
+
+/** Hour-of-week key an hour later, wrapping from Saturday 23:00 to Sunday 00:00 */
+export function nextHourOfWeekKey(key: string): string {
+  const [weekday, hour] = key.split('/').map(Number);
+  return hour < 23 ? hourOfWeekKey(weekday, hour + 1) : hourOfWeekKey((weekday + 1) % 7, 0);
+}
+
+/** Key of the period `amount` units away, e.g. the same weekday a week earlier */
+export function shiftPeriodKey(
+  key: string,
+  granularity: Granularity,
+  amount: number,
+  unit: 'day' | 'week' | 'month' | 'year'
+): string {
+  const format = PERIOD_KEY_FORMAT[granularity];
+  return dateTimeParse(key, { format, timeZone: 'utc' }).add(amount, unit).format(format);
+}
+
+/** 52 or 53: a year has week 53 exactly when Dec 28 falls in it */
+export function isoWeeksInYear(year: number): number {
+  return dateTimeFormat(Date.UTC(year, 11, 28), { format: 'W', timeZone: 'utc' }) === '53' ? 53 : 52;
+}
+
+/** Key of the `index`-th (0-based) week or month of a year */
+export function periodKeyAt(year: number, index: number): string {
+  return `${year}/${String(index + 1).padStart(2, '0')}`;
+}
+
+/** Years covered by the time range; ISO week-years in week mode */
+export function yearsInRange(
+  from: DateTimeInput,
+  to: DateTimeInput,
+  granularity: Exclude<Granularity, 'day'>,
+  timeZone?: string
+): number[] {
+  const format = granularity === 'week' ? 'GGGG' : 'YYYY';
+  const first = Number(dateTimeFormat(from, { format, timeZone }));
+  const last = Number(dateTimeFormat(to, { format, timeZone }));
+  if (!Number.isFinite(first) || !Number.isFinite(last)) {
+    return [];
+  }
+
+  const years: number[] = [];
+  for (let y = first; y <= last; y++) {
+    years.push(y);
+  }
+  return years;
+}
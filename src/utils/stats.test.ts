@@ -0,0 +1,65 @@
+import { computeSummaryStats } from './stats';
+
+const values = (entries: Array<[string, number]>) => entries.map(([date, count]) => ({ date, count }));
+
+describe('computeSummaryStats', () => {
+  // Fri 8 - Sun 10 active, Mon 11 zero, Wed 13 - Thu 14 active
+  const days = values([
+    ['2024/03/08', 2],
+    ['2024/03/09', 4],
+    ['2024/03/10', 6],
+    ['2024/03/11', 0],
+    ['2024/03/13', 1],
+    ['2024/03/14', 3],
+  ]);
+
+  it('averages over the cells with data', () => {
+    const stats = computeSummaryStats(days);
+    expect(stats.total).toBe(16);
+    expect(stats.average).toBeCloseTo(16 / 6);
+    expect(stats.activeDays).toBe(5);
+    expect(stats.busiestDay).toEqual({ date: '2024/03/10', count: 6 });
+  });
+
+  it('finds the longest run of active days, skipping zero and missing days', () => {
+    expect(computeSummaryStats(days, { daily: true }).longestStreak).toBe(3);
+  });
+
+  it('counts the current streak up to the end of the range, or the day before', () => {
+    expect(computeSummaryStats(days, { daily: true, endKey: '2024/03/14' }).currentStreak).toBe(2);
+    expect(computeSummaryStats(days, { daily: true, endKey: '2024/03/15' }).currentStreak).toBe(2);
+    expect(computeSummaryStats(days, { daily: true, endKey: '2024/03/16' }).currentStreak).toBe(0);
+  });
+
+  it('sums every weekday to find the busiest', () => {
+    const twoWeeks = values([
+      ['2024/03/04', 5],
+      ['2024/03/05', 3],
+      ['2024/03/11', 5],
+      ['2024/03/12', 8],
+    ]);
+    expect(computeSummaryStats(twoWeeks, { daily: true }).busiestWeekday).toEqual({ weekday: 2, total: 11 });
+  });
+
+  it('leaves streaks and the busiest weekday out unless cells are days', () => {
+    const months = computeSummaryStats(
+      values([
+        ['2024/01', 10],
+        ['2024/02', 20],
+      ])
+    );
+    expect(months).toMatchObject({ total: 30, average: 15, currentStreak: 0, longestStreak: 0 });
+    expect(months.busiestWeekday).toBeUndefined();
+  });
+
+  it('is empty without values', () => {
+    expect(computeSummaryStats([], { daily: true })).toEqual({
+      total: 0,
+      average: 0,
+      activeDays: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      busiestDay: undefined,
+    });
+  });
+});
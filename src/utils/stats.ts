@@ -0,0 +1,107 @@
+import { CalendarHeatmapOptions, HeatmapValue } from '../types';
+import { isZeroValue } from './dataProcessor';
+import { dayNumber, weekdayOfKey } from './dates';
+
+// --------------------
+// Summary statistics of the aggregated cells
+// --------------------
+
+export type SummaryStat = CalendarHeatmapOptions['stats'][number];
+
+/** Stats shown until the panel picks its own */
+export const DEFAULT_STATS: SummaryStat[] = ['total', 'average', 'activeDays', 'longestStreak', 'busiestDay'];
+
+/** Stats that only make sense for daily cells */
+export const DAILY_ONLY_STATS: SummaryStat[] = ['currentStreak', 'longestStreak', 'busiestWeekday'];
+
+export interface SummaryStats {
+  total: number;
+  /** total / cells with data, whatever the granularity */
+  average: number;
+  /** Cells with a non-zero value */
+  activeDays: number;
+  /** Active days in a row up to the last day of the range (or the day before, which may still be filling up) */
+  currentStreak: number;
+  longestStreak: number;
+  busiestDay?: HeatmapValue;
+  /** 0 = Sunday; summed over the range */
+  busiestWeekday?: { weekday: number; total: number };
+}
+
+export interface SummaryOptions {
+  /** Last day of the range (YYYY/MM/DD), for the current streak */
+  endKey?: string;
+  /** Cells are days (keys YYYY/MM/DD): enables streaks and the busiest weekday */
+  daily?: boolean;
+}
+
+function isActive(value: number): boolean {
+  return !isZeroValue(value);
+}
+
+export function computeSummaryStats(values: HeatmapValue[], options: SummaryOptions = {}): SummaryStats {
+  let total = 0;
+  let activeDays = 0;
+  let busiestDay: HeatmapValue | undefined;
+
+  for (const v of values) {
+    total += v.count;
+    if (isActive(v.count)) {
+      activeDays++;
+    }
+    if (!busiestDay || v.count > busiestDay.count) {
+      busiestDay = v;
+    }
+  }
+
+  const stats: SummaryStats = {
+    total,
+    average: values.length > 0 ? total / values.length : 0,
+    activeDays,
+    currentStreak: 0,
+    longestStreak: 0,
+    busiestDay,
+  };
+
+  if (!options.daily) {
+    return stats;
+  }
+
+  // Streaks over consecutive active days
+  const activeDayNumbers = values
+    .filter((v) => isActive(v.count))
+    .map((v) => dayNumber(v.date))
+    .filter((n) => Number.isFinite(n))
+    .sort((a, b) => a - b);
+
+  let run = 0;
+  for (let i = 0; i < activeDayNumbers.length; i++) {
+    run = i > 0 && activeDayNumbers[i] === activeDayNumbers[i - 1] + 1 ? run + 1 : 1;
+    stats.longestStreak = Math.max(stats.longestStreak, run);
+  }
+
+  const active = new Set(activeDayNumbers);
+  const end = options.endKey ? dayNumber(options.endKey) : activeDayNumbers[activeDayNumbers.length - 1];
+  if (Number.isFinite(end)) {
+    let day = active.has(end) ? end : end - 1;
+    while (active.has(day)) {
+      stats.currentStreak++;
+      day--;
+    }
+  }
+
+  // Busiest weekday by total
+  const byWeekday = new Array(7).fill(0);
+  for (const v of values) {
+    const weekday = weekdayOfKey(v.date);
+    if (Number.isFinite(weekday)) {
+      byWeekday[weekday] += v.count;
+    }
+  }
+  if (values.length > 0) {
+    const weekday = byWeekday.indexOf(Math.max(...byWeekday));
+    stats.busiestWeekday = { weekday, total: byWeekday[weekday] };
+  }
+
+  return stats;
+}
@@ -5,10 +5,10 @@ const PANEL_WITH_DATA_ID = '1';
 const PANEL_NO_DATA_ID = '2';
 const EXPECT_TIMEOUT = 15_000;
 const PANEL_READY_TIMEOUT = 20_000;
-const HEATMAP_SELECTOR = 'svg.w-heatmap';
+const HEATMAP_SELECTOR = 'svg.calendar-heatmap';
 const HEATMAP_CELL_SELECTOR = 'rect[data-date]';
-const WEEK_LABEL_SELECTOR = `${HEATMAP_SELECTOR} .w-heatmap-week`;
-const MONTH_LABEL_SELECTOR = `${HEATMAP_SELECTOR} text[data-size]`;
+const WEEK_LABEL_SELECTOR = `${HEATMAP_SELECTOR} .calendar-heatmap-weekday`;
+const MONTH_LABEL_SELECTOR = `${HEATMAP_SELECTOR} text.calendar-heatmap-label`;
 
 type PanelDeps = {
   readProvisionedDashboard: (args: { fileName: string }) => Promise<unknown>;